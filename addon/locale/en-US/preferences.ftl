@@ -10,4 +10,10 @@ pref-compact-mode =
 pref-input = Input
 pref-help = { $name } Build { $version } { $time }
 pref-debug-mode =
-    .label = Enable debug mode
\ No newline at end of file
+    .label = Enable debug mode
+pref-backup-title = Backup
+pref-backup-description = Save every syllabus (classes, settings and readings) to one file, e.g. before moving to a new computer or reinstalling Zotero. Restoring puts the syllabi back into the same collections and items once your library has synced.
+pref-export-backup =
+    .label = Export All Syllabi…
+pref-restore-backup =
+    .label = Restore from Backup…
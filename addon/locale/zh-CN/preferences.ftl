@@ -9,3 +9,9 @@ pref-compact-mode =
     .label = 使用紧凑布局
 pref-input = 输入
 pref-help = { $name } Build { $version } { $time }
+pref-backup-title = 备份
+pref-backup-description = 将所有课程大纲（课程、设置和阅读）保存到一个文件中，例如在更换电脑或重新安装 Zotero 之前。文献库同步完成后，恢复会将课程大纲写回相同的分类和条目。
+pref-export-backup =
+    .label = 导出所有课程大纲…
+pref-restore-backup =
+    .label = 从备份恢复…
@@ -5,3 +5,5 @@ pref("readerMode", false);
 pref("shouldColourSyllabusRows", false);
 pref("debugMode", false);
 pref("wpm", 220);
+pref("workloadThreshold", 600);
+pref("readingScheduleView", "schedule");
@@ -4,10 +4,7 @@ import { registerPrefsScripts } from "./modules/preferenceScript";
 import { createZToolkit } from "./utils/ztoolkit";
 import { getCSSUrl } from "./utils/css";
 import { getSelectedCollection } from "./utils/zotero";
-import {
-  ExportSyllabusMetadataSchema,
-  SettingsSyllabusMetadata,
-} from "./utils/schemas";
+import { SettingsSyllabusMetadata } from "./utils/schemas";
 import { zoteroCache } from "./utils/cache";
 import { FEATURE_FLAG } from "./modules/featureFlags";
 
@@ -29,6 +26,9 @@ async function onStartup(rootURI: string) {
   // Register HTTP endpoint for translator to set Talis syllabus metadata
   registerTalisMetadataEndpoint();
 
+  // Register read-only HTTP endpoints for local scripts and tools
+  registerSyllabusAPIEndpoints();
+
   await Promise.all(
     Zotero.getMainWindows().map((win) => onMainWindowLoad(win)),
   );
@@ -106,7 +106,9 @@ function registerTalisMetadataEndpoint() {
           ];
         }
 
-        const { metadata } = req.data;
+        // dryRun: report what the import would change without applying it
+        // strategy: "merge" (default) or "replace"
+        const { metadata, dryRun, strategy } = req.data;
 
         if (!metadata) {
           ztoolkit.log("No metadata in request body");
@@ -117,25 +119,22 @@ function registerTalisMetadataEndpoint() {
           ];
         }
 
-        const validatedMetadataFileContents =
-          ExportSyllabusMetadataSchema.safeParse(metadata);
-        if (!validatedMetadataFileContents.success) {
-          ztoolkit.log(
-            "Invalid metadata JSON",
-            validatedMetadataFileContents,
-            validatedMetadataFileContents,
-          );
+        // Validate (and migrate older formats) before touching the collection
+        try {
+          SyllabusManager.parseSyllabusImportFile(JSON.stringify(metadata));
+        } catch (error) {
+          ztoolkit.log("Invalid metadata JSON", error);
           return [
             400,
             "application/json",
             JSON.stringify({
               error: "Invalid metadata JSON",
-              details: validatedMetadataFileContents,
+              details: error instanceof Error ? error.message : String(error),
             }),
           ];
         }
 
-        ztoolkit.log("Validated metadata:", validatedMetadataFileContents.data);
+        ztoolkit.log("Validated metadata:", metadata);
 
         // Get the active collection ID
         const collection = getSelectedCollection();
@@ -156,12 +155,53 @@ function registerTalisMetadataEndpoint() {
           metadata,
         );
 
+        if (
+          strategy !== undefined &&
+          strategy !== "merge" &&
+          strategy !== "replace"
+        ) {
+          return [
+            400,
+            "application/json",
+            JSON.stringify({ error: 'strategy must be "merge" or "replace"' }),
+          ];
+        }
+
         try {
-          const { collectionAndLibraryKey, syllabusData } =
+          if (dryRun) {
+            const preview = await SyllabusManager.previewSyllabusImport(
+              collectionId,
+              JSON.stringify(metadata),
+            );
+            return [
+              200,
+              "application/json",
+              JSON.stringify({
+                collectionAndLibraryKey:
+                  SyllabusManager.getCollectionReferenceString(
+                    collection.libraryID,
+                    collection.key,
+                  ),
+                dryRun: true,
+                preview,
+              }),
+            ];
+          }
+
+          if (SyllabusManager.getLocked(collectionId)) {
+            return [
+              423,
+              "application/json",
+              JSON.stringify({ error: "The selected syllabus is locked" }),
+            ];
+          }
+
+          const { collectionAndLibraryKey, syllabusData, items } =
             await SyllabusManager.importSyllabusMetadata(
               collectionId,
-              JSON.stringify(validatedMetadataFileContents.data),
+              JSON.stringify(metadata),
               "background",
+              strategy,
             );
 
           return [
@@ -170,6 +210,7 @@ function registerTalisMetadataEndpoint() {
             JSON.stringify({
               collectionAndLibraryKey: collectionAndLibraryKey as string,
               syllabusData: syllabusData as SettingsSyllabusMetadata,
+              items,
             }),
           ];
         } catch (error) {
@@ -201,6 +242,119 @@ function registerTalisMetadataEndpoint() {
   ztoolkit.log("Registered /syllabus/setTalisMetadata endpoint");
 }
 
+/**
+ * Register read-only HTTP endpoints exposing syllabi as JSON
+ * Endpoints (all GET):
+ * - /syllabus/list: every syllabus, summarised
+ * - /syllabus/{libraryID}/{collectionKey}: one syllabus with classes, assignments and citations
+ * - /syllabus/schedule?from=yyyy-MM-dd&to=yyyy-MM-dd: classes with reading dates, across all syllabi
+ */
+function registerSyllabusAPIEndpoints() {
+  if (
+    typeof Zotero.Server === "undefined" ||
+    typeof Zotero.Server.Endpoints === "undefined"
+  ) {
+    ztoolkit.log(
+      "Zotero.Server.Endpoints not available, skipping endpoint registration",
+    );
+    return;
+  }
+
+  const jsonResponse = (status: number, body: unknown) => [
+    status,
+    "application/json",
+    JSON.stringify(body),
+  ];
+
+  const ListSyllabi = function () {};
+  ListSyllabi.prototype = {
+    supportedMethods: ["GET"],
+    supportedDataTypes: ["application/json"],
+    permitBookmarklet: false,
+
+    init: async function () {
+      try {
+        return jsonResponse(200, {
+          syllabi: SyllabusManager.getSyllabusSummaries(),
+        });
+      } catch (error) {
+        ztoolkit.log("Error listing syllabi:", error);
+        return jsonResponse(500, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    },
+  };
+
+  const GetSyllabus = function () {};
+  GetSyllabus.prototype = {
+    supportedMethods: ["GET"],
+    supportedDataTypes: ["application/json"],
+    permitBookmarklet: false,
+
+    init: async function (req: any) {
+      const libraryID = parseInt(req.pathParams?.libraryID, 10);
+      const collectionKey = req.pathParams?.collectionKey;
+      if (isNaN(libraryID) || !collectionKey) {
+        return jsonResponse(400, {
+          error: "libraryID and collectionKey required in path",
+        });
+      }
+      try {
+        const syllabus = await SyllabusManager.getSyllabusDetail([
+          libraryID,
+          collectionKey,
+        ]);
+        if (!syllabus) {
+          return jsonResponse(404, { error: "Collection not found" });
+        }
+        return jsonResponse(200, syllabus);
+      } catch (error) {
+        ztoolkit.log("Error getting syllabus:", error);
+        return jsonResponse(500, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    },
+  };
+
+  const GetSchedule = function () {};
+  GetSchedule.prototype = {
+    supportedMethods: ["GET"],
+    supportedDataTypes: ["application/json"],
+    permitBookmarklet: false,
+
+    init: async function (req: any) {
+      const from: string | undefined =
+        req.searchParams?.get("from") || undefined;
+      const to: string | undefined = req.searchParams?.get("to") || undefined;
+      const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+      if ((from && !datePattern.test(from)) || (to && !datePattern.test(to))) {
+        return jsonResponse(400, {
+          error: "from and to must be dates in yyyy-MM-dd format",
+        });
+      }
+      try {
+        return jsonResponse(200, {
+          schedule: SyllabusManager.getReadingScheduleEntries(from, to),
+        });
+      } catch (error) {
+        ztoolkit.log("Error getting reading schedule:", error);
+        return jsonResponse(500, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    },
+  };
+
+  const endpoints = Zotero.Server.Endpoints as any;
+  endpoints["/syllabus/list"] = ListSyllabi;
+  endpoints["/syllabus/schedule"] = GetSchedule;
+  // Path parameters are matched by Zotero's server and passed as req.pathParams
+  endpoints["/syllabus/:libraryID/:collectionKey"] = GetSyllabus;
+  ztoolkit.log("Registered read-only /syllabus endpoints");
+}
+
 function registerStyleSheet(win: _ZoteroTypes.MainWindow) {
   const doc = win.document;
 
@@ -0,0 +1,279 @@
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+import { h, Fragment } from "preact";
+import { useState, useMemo, useCallback } from "preact/hooks";
+import { twMerge } from "tailwind-merge";
+import { SyllabusManager, CSVColumnMapping, CSVImportResult } from "./syllabus";
+
+interface CSVImportPageProps {
+  collectionId: number;
+  fileName: string;
+  rows: string[][];
+  onBack: () => void;
+}
+
+const inputClassName =
+  "px-4 py-2 border border-quinary rounded-md bg-background text-primary focus:outline-3 focus:outline-accent-blue focus:outline-offset-2";
+
+// Header names we recognise when guessing the column mapping
+const FIELD_HEADER_PATTERNS: Record<keyof CSVColumnMapping, RegExp> = {
+  classNumber:
+    /^(week|class|session|section|lecture|seminar|unit)\s*(no\.?|number|#)?$/i,
+  classTitle: /(topic|theme|class title|session title|week title)/i,
+  priority: /(priority|required|essential|type|category)/i,
+  instruction: /(note|instruction|comment|guidance)/i,
+  identifier: /(doi|isbn|identifier|title|reading|citation|reference)/i,
+};
+
+export function CSVImportPage({
+  collectionId,
+  fileName,
+  rows,
+  onBack,
+}: CSVImportPageProps) {
+  const { singularCapitalized } =
+    SyllabusManager.getNomenclatureFormatted(collectionId);
+
+  const header = rows[0] || [];
+  const dataRows = useMemo(() => rows.slice(1), [rows]);
+
+  const fields: Array<{ key: keyof CSVColumnMapping; label: string }> = [
+    { key: "identifier", label: "Reading (DOI, ISBN or title)" },
+    { key: "classNumber", label: `${singularCapitalized} number` },
+    { key: "classTitle", label: `${singularCapitalized} title` },
+    { key: "priority", label: "Priority" },
+    { key: "instruction", label: "Instructions" },
+  ];
+
+  const [mapping, setMapping] = useState<CSVColumnMapping>(() => {
+    const guessed: CSVColumnMapping = {};
+    const used = new Set<number>();
+    // More specific fields first, so e.g. "Week title" isn't taken as the class number
+    for (const key of [
+      "classTitle",
+      "classNumber",
+      "priority",
+      "instruction",
+      "identifier",
+    ] as const) {
+      const column = header.findIndex(
+        (name, index) =>
+          !used.has(index) && FIELD_HEADER_PATTERNS[key].test(name.trim()),
+      );
+      if (column !== -1) {
+        guessed[key] = column;
+        used.add(column);
+      }
+    }
+    return guessed;
+  });
+
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<CSVImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleMappingChange = useCallback(
+    (key: keyof CSVColumnMapping, value: string) => {
+      setMapping((prev) => ({
+        ...prev,
+        [key]: value === "" ? undefined : parseInt(value, 10),
+      }));
+    },
+    [],
+  );
+
+  const handleImport = useCallback(async () => {
+    setIsImporting(true);
+    setError(null);
+    try {
+      const importResult = await SyllabusManager.importCSVReadingList(
+        collectionId,
+        dataRows,
+        mapping,
+        "page",
+      );
+      setResult(importResult);
+    } catch (err) {
+      ztoolkit.log("Error importing CSV reading list:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsImporting(false);
+    }
+  }, [collectionId, dataRows, mapping]);
+
+  return (
+    <div className="syllabus-page overflow-y-auto overflow-x-hidden h-full">
+      <div className="pb-12">
+        <div
+          className={twMerge(
+            "sticky top-0 z-10 bg-background py-1",
+            Zotero.version.startsWith("8.") ? "md:pt-8" : "pt-8",
+          )}
+        >
+          <div className="container-padded bg-background">
+            <div className="flex flex-row items-center gap-4 justify-between">
+              <div className="flex-1 text-3xl font-semibold">
+                Import reading list
+              </div>
+              <div className="inline-flex items-center gap-2 shrink grow-0">
+                <button
+                  onClick={onBack}
+                  title="Back to syllabus view"
+                  aria-label="Back to syllabus view"
+                >
+                  ← Back
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="container-padded mt-8 space-y-8">
+          {result ? (
+            <section className="space-y-4">
+              <h2 className="text-2xl font-semibold">Import summary</h2>
+              <p className="text-secondary">
+                Imported {result.imported} of {dataRows.length} rows from{" "}
+                <strong>{fileName}</strong>.
+              </p>
+              {result.unmatched.length > 0 && (
+                <>
+                  <p className="text-secondary">
+                    These rows were not imported. Add the items to your library,
+                    then import the file again or assign them by hand.
+                  </p>
+                  <table className="w-full text-left">
+                    <thead>
+                      <tr className="text-secondary">
+                        <th className="py-1 pr-4">Row</th>
+                        <th className="py-1 pr-4">Reading</th>
+                        <th className="py-1">Reason</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.unmatched.map((row) => (
+                        <tr key={row.row} className="border-t border-quinary">
+                          <td className="py-1 pr-4">{row.row}</td>
+                          <td className="py-1 pr-4">{row.identifier}</td>
+                          <td className="py-1 text-secondary">{row.reason}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </>
+              )}
+              {result.warnings.length > 0 && (
+                <>
+                  <p className="text-secondary">
+                    These rows were imported without their priority. Add the
+                    priority in the syllabus settings, or set it by hand.
+                  </p>
+                  <table className="w-full text-left">
+                    <thead>
+                      <tr className="text-secondary">
+                        <th className="py-1 pr-4">Row</th>
+                        <th className="py-1 pr-4">Reading</th>
+                        <th className="py-1">Reason</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.warnings.map((row) => (
+                        <tr key={row.row} className="border-t border-quinary">
+                          <td className="py-1 pr-4">{row.row}</td>
+                          <td className="py-1 pr-4">{row.identifier}</td>
+                          <td className="py-1 text-secondary">{row.reason}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </>
+              )}
+              <button onClick={onBack}>Back to syllabus</button>
+            </section>
+          ) : (
+            <>
+              <section className="space-y-4">
+                <h2 className="text-2xl font-semibold">Columns</h2>
+                <p className="text-secondary">
+                  Choose which column of <strong>{fileName}</strong> holds each
+                  piece of information. Readings are matched to items already in
+                  your library by DOI, ISBN or title.
+                </p>
+                <div className="space-y-3">
+                  {fields.map((field) => (
+                    <div key={field.key} className="flex flex-col gap-2">
+                      <label className="text-sm font-medium text-secondary">
+                        {field.label}
+                      </label>
+                      <select
+                        value={
+                          mapping[field.key] === undefined
+                            ? ""
+                            : String(mapping[field.key])
+                        }
+                        onChange={(e) =>
+                          handleMappingChange(field.key, e.currentTarget.value)
+                        }
+                        className={inputClassName}
+                      >
+                        <option value="">— Not in this file —</option>
+                        {header.map((name, index) => (
+                          <option key={index} value={String(index)}>
+                            {name || `Column ${index + 1}`}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </section>
+
+              <section className="space-y-4">
+                <h2 className="text-2xl font-semibold">Preview</h2>
+                <table className="w-full text-left">
+                  <thead>
+                    <tr className="text-secondary">
+                      {fields.map((field) => (
+                        <th key={field.key} className="py-1 pr-4">
+                          {field.label}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {dataRows.slice(0, 5).map((row, rowIndex) => (
+                      <tr key={rowIndex} className="border-t border-quinary">
+                        {fields.map((field) => (
+                          <td key={field.key} className="py-1 pr-4">
+                            {mapping[field.key] === undefined
+                              ? ""
+                              : row[mapping[field.key]!] || ""}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {dataRows.length > 5 && (
+                  <p className="text-sm text-secondary">
+                    …and {dataRows.length - 5} more rows
+                  </p>
+                )}
+              </section>
+
+              {error && <p className="text-red-500">{error}</p>}
+
+              <button
+                onClick={handleImport}
+                disabled={isImporting || mapping.identifier === undefined}
+              >
+                {isImporting
+                  ? "Importing…"
+                  : `Import ${dataRows.length} readings`}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
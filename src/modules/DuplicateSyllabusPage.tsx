@@ -0,0 +1,230 @@
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+import { h, Fragment } from "preact";
+import { useState, useMemo, useCallback } from "preact/hooks";
+import { twMerge } from "tailwind-merge";
+import { SyllabusManager, SyllabusDuplicateDateShift } from "./syllabus";
+import {
+  formatReadingDate,
+  getTermShiftDays,
+  shiftISODate,
+} from "../utils/dates";
+
+interface DuplicateSyllabusPageProps {
+  collectionId: number;
+  title: string;
+  onBack: () => void;
+}
+
+const inputClassName =
+  "px-4 py-2 border border-quinary rounded-md bg-background text-primary focus:outline-3 focus:outline-accent-blue focus:outline-offset-2";
+
+export function DuplicateSyllabusPage({
+  collectionId,
+  title,
+  onBack,
+}: DuplicateSyllabusPageProps) {
+  const { plural } = SyllabusManager.getNomenclatureFormatted(collectionId);
+
+  const [name, setName] = useState(`${title} (copy)`);
+  const [shiftType, setShiftType] =
+    useState<SyllabusDuplicateDateShift["type"]>("none");
+  const [weeks, setWeeks] = useState("52");
+  const [termStart, setTermStart] = useState("");
+  const [isDuplicating, setIsDuplicating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const firstReadingDate = useMemo(() => {
+    const metadata = SyllabusManager.getSyllabusMetadata(collectionId);
+    return (
+      Object.values(metadata.classes || {})
+        .map((classMetadata) => classMetadata?.readingDate)
+        .filter((date): date is string => !!date)
+        .sort((a, b) => new Date(a).getTime() - new Date(b).getTime())[0] ||
+      null
+    );
+  }, [collectionId]);
+
+  const dateShift = useMemo((): SyllabusDuplicateDateShift => {
+    if (shiftType === "offset") {
+      const parsed = parseInt(weeks, 10);
+      return { type: "offset", days: isNaN(parsed) ? 0 : parsed * 7 };
+    }
+    if (shiftType === "term-start" && termStart) {
+      return { type: "term-start", termStart };
+    }
+    return { type: "none" };
+  }, [shiftType, weeks, termStart]);
+
+  // Where the first class lands, to check the shift before duplicating
+  const newFirstReadingDate = useMemo(() => {
+    if (!firstReadingDate) return null;
+    if (dateShift.type === "offset") {
+      return shiftISODate(firstReadingDate, dateShift.days);
+    }
+    if (dateShift.type === "term-start") {
+      return shiftISODate(
+        firstReadingDate,
+        getTermShiftDays(firstReadingDate, dateShift.termStart),
+      );
+    }
+    return firstReadingDate;
+  }, [firstReadingDate, dateShift]);
+
+  const handleDuplicate = useCallback(async () => {
+    setIsDuplicating(true);
+    setError(null);
+    try {
+      const newCollection = await SyllabusManager.duplicateSyllabus(
+        collectionId,
+        { name, dateShift },
+        "page",
+      );
+      new ztoolkit.ProgressWindow("Syllabus duplicated", {
+        closeOnClick: true,
+        closeTime: 5000,
+      })
+        .createLine({
+          text: `Created "${newCollection.name}"`,
+          type: "success",
+        })
+        .show();
+      onBack();
+      const collectionsView = ztoolkit.getGlobal("ZoteroPane").collectionsView;
+      if (collectionsView) {
+        collectionsView.selectByID(newCollection.treeViewID);
+      }
+    } catch (err) {
+      ztoolkit.log("Error duplicating syllabus:", err);
+      setError(err instanceof Error ? err.message : String(err));
+      setIsDuplicating(false);
+    }
+  }, [collectionId, name, dateShift]);
+
+  return (
+    <div className="syllabus-page overflow-y-auto overflow-x-hidden h-full">
+      <div className="pb-12">
+        <div
+          className={twMerge(
+            "sticky top-0 z-10 bg-background py-1",
+            Zotero.version.startsWith("8.") ? "md:pt-8" : "pt-8",
+          )}
+        >
+          <div className="container-padded bg-background">
+            <div className="flex flex-row items-center gap-4 justify-between">
+              <div className="flex-1 text-3xl font-semibold">
+                Duplicate syllabus
+              </div>
+              <div className="inline-flex items-center gap-2 shrink grow-0">
+                <button
+                  onClick={onBack}
+                  title="Back to syllabus view"
+                  aria-label="Back to syllabus view"
+                >
+                  ← Back
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="container-padded mt-8 space-y-8">
+          <p className="text-secondary">
+            Create a new collection with the same readings, {plural} and
+            settings, e.g. for next term. Reading statuses start afresh.
+          </p>
+
+          <section className="space-y-4">
+            <h2 className="text-2xl font-semibold">Name</h2>
+            <input
+              type="text"
+              value={name}
+              onInput={(e) => setName(e.currentTarget.value)}
+              className={twMerge(inputClassName, "w-full")}
+            />
+          </section>
+
+          <section className="space-y-4">
+            <h2 className="text-2xl font-semibold">Reading dates</h2>
+            {firstReadingDate ? (
+              <>
+                <div className="flex flex-col gap-2">
+                  <label className="inline-flex items-center gap-2">
+                    <input
+                      type="radio"
+                      checked={shiftType === "none"}
+                      onChange={() => setShiftType("none")}
+                    />
+                    Keep the same dates
+                  </label>
+                  <label className="inline-flex items-center gap-2">
+                    <input
+                      type="radio"
+                      checked={shiftType === "offset"}
+                      onChange={() => setShiftType("offset")}
+                    />
+                    Move every date by
+                    <input
+                      type="number"
+                      value={weeks}
+                      onInput={(e) => {
+                        setWeeks(e.currentTarget.value);
+                        setShiftType("offset");
+                      }}
+                      className={twMerge(inputClassName, "w-24 py-1")}
+                      aria-label="Weeks"
+                    />
+                    weeks
+                  </label>
+                  <label className="inline-flex items-center gap-2">
+                    <input
+                      type="radio"
+                      checked={shiftType === "term-start"}
+                      onChange={() => setShiftType("term-start")}
+                    />
+                    Start the new term on
+                    <input
+                      type="date"
+                      value={termStart}
+                      onChange={(e) => {
+                        setTermStart(e.currentTarget.value);
+                        setShiftType("term-start");
+                      }}
+                      className={twMerge(inputClassName, "py-1")}
+                      aria-label="New term start date"
+                    />
+                  </label>
+                </div>
+                <p className="text-secondary">
+                  The first reading date, {formatReadingDate(firstReadingDate)}
+                  {newFirstReadingDate &&
+                  newFirstReadingDate !== firstReadingDate
+                    ? `, becomes ${formatReadingDate(newFirstReadingDate)} ${new Date(newFirstReadingDate).getFullYear()}`
+                    : ", stays the same"}
+                  .{shiftType !== "none" && " Every class keeps its weekday."}
+                </p>
+              </>
+            ) : (
+              <p className="text-secondary">
+                This syllabus has no reading dates to move.
+              </p>
+            )}
+          </section>
+
+          {error && <p className="text-red-500">{error}</p>}
+
+          <div className="flex flex-row gap-2">
+            <button
+              onClick={handleDuplicate}
+              disabled={isDuplicating || !name.trim()}
+            >
+              {isDuplicating ? "Duplicating…" : "Duplicate"}
+            </button>
+            <button onClick={onBack} disabled={isDuplicating}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,19 +1,36 @@
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import { h, Fragment } from "preact";
-import { useState, useCallback, useRef, useMemo } from "preact/hooks";
-import { SyllabusManager, ItemSyllabusAssignment } from "./syllabus";
-import { Square, SquareCheck } from "lucide-preact";
+import {
+  useState,
+  useCallback,
+  useRef,
+  useMemo,
+  useEffect,
+} from "preact/hooks";
+import {
+  SyllabusManager,
+  ItemSyllabusAssignment,
+  PersonalAssignmentState,
+} from "./syllabus";
+import { Lock, Square, SquareCheck } from "lucide-preact";
 import { twMerge } from "tailwind-merge";
 import { useZoteroItem } from "./react-zotero-sync/item";
 import { useZoteroSelectedItemIds } from "./react-zotero-sync/selectedItem";
 import { useSelectedCollectionId } from "./react-zotero-sync/collection";
-import { classNumberSchema } from "../utils/schemas";
+import { classNumberSchema, PageRange } from "../utils/schemas";
+import {
+  parsePageRanges,
+  pageRangesToText,
+  countPagesInRanges,
+} from "../utils/pageRanges";
 import {
   getCachedCollectionById,
   getCachedCollectionByKey,
 } from "../utils/cache";
 import { useZoteroClassMetadata } from "./react-zotero-sync/classMetadata";
+import { useZoteroPersonalProgress } from "./react-zotero-sync/personalProgress";
 import { formatReadingDate } from "../utils/dates";
+import { formatDate } from "date-fns";
 
 interface ItemPaneProps {
   editable: boolean;
@@ -48,7 +65,17 @@ interface AssignmentEditorProps {
   onStatusChange: (
     assignmentId: string,
     collectionId: number,
-    status: "done" | null,
+    status: string | null,
+  ) => void;
+  onPageRangesChange: (
+    assignmentId: string,
+    collectionId: number,
+    pageRanges: PageRange[],
+  ) => void;
+  onPersonalStateChange: (
+    assignmentId: string,
+    collectionId: number,
+    update: Partial<PersonalAssignmentState>,
   ) => void;
   onDelete: (assignmentId: string, collectionId: number) => void;
   onDuplicate: (
@@ -113,6 +140,8 @@ function ItemPaneContent({
   editable: boolean;
 }) {
   const currentCollectionId = useSelectedCollectionId();
+  // Reading status may come from the user's personal progress
+  const personalProgress = useZoteroPersonalProgress();
 
   // Get all assignments across all collections
   const allAssignmentsByCollection = useMemo(() => {
@@ -165,9 +194,10 @@ function ItemPaneContent({
             collection,
             collectionId: collection.id,
             collectionName: collection.name,
-            assignments: validAssignments.sort(
-              SyllabusManager.compareAssignments,
-            ),
+            assignments: SyllabusManager.withPersonalState(
+              collection.id,
+              validAssignments,
+            ).sort(SyllabusManager.compareAssignments),
           });
         }
       }
@@ -197,7 +227,7 @@ function ItemPaneContent({
     });
 
     return collectionsWithAssignments;
-  }, [itemVersion, currentCollectionId]);
+  }, [itemVersion, currentCollectionId, personalProgress]);
 
   const [isSaving, setIsSaving] = useState(false);
 
@@ -341,7 +371,7 @@ function ItemPaneContent({
     async (
       assignmentId: string,
       collectionId: number,
-      status: "done" | null,
+      status: string | null,
     ) => {
       if (!assignmentId) {
         ztoolkit.log("Error: Assignment ID missing");
@@ -360,6 +390,45 @@ function ItemPaneContent({
     [itemVersion, handleSave],
   );
 
+  const handlePageRangesChange = useCallback(
+    async (
+      assignmentId: string,
+      collectionId: number,
+      pageRanges: PageRange[],
+    ) => {
+      if (!assignmentId) {
+        ztoolkit.log("Error: Assignment ID missing");
+        return;
+      }
+
+      await SyllabusManager.updateClassAssignment(
+        itemVersion.item,
+        collectionId,
+        assignmentId,
+        { pageRanges: pageRanges.length > 0 ? pageRanges : undefined },
+        "item-pane",
+      );
+      await handleSave();
+    },
+    [itemVersion, handleSave],
+  );
+
+  const handlePersonalStateChange = useCallback(
+    (
+      assignmentId: string,
+      collectionId: number,
+      update: Partial<PersonalAssignmentState>,
+    ) => {
+      SyllabusManager.setPersonalAssignmentState(
+        itemVersion.item,
+        collectionId,
+        assignmentId,
+        update,
+      );
+    },
+    [itemVersion],
+  );
+
   const handleCreateAssignment = useCallback(
     async (
       itemVersion: { item: Zotero.Item; version: number },
@@ -428,6 +497,15 @@ function ItemPaneContent({
               >
                 <span className="icon icon-css icon-collection size-[16px]"></span>
                 <span>{group.collectionName}</span>
+                {SyllabusManager.getLocked(group.collectionId) && (
+                  <span
+                    className="ml-auto text-secondary"
+                    title="This syllabus is locked. Only reading status can be changed."
+                    aria-label="Locked"
+                  >
+                    <Lock size={14} />
+                  </span>
+                )}
               </div>
             </header>
 
@@ -449,7 +527,9 @@ function ItemPaneContent({
                   onPriorityChange={handlePriorityChange}
                   onClassNumberChange={handleClassNumberChange}
                   onInstructionChange={handleInstructionChange}
+                  onPageRangesChange={handlePageRangesChange}
                   onStatusChange={handleStatusChange}
+                  onPersonalStateChange={handlePersonalStateChange}
                   onDelete={handleDeleteAssignment}
                   onDuplicate={handleDuplicateAssignment}
                 />
@@ -457,7 +537,7 @@ function ItemPaneContent({
             })}
 
             {/* Create New Assignment Button for this collection */}
-            {editable && (
+            {editable && !SyllabusManager.getLocked(group.collectionId) && (
               <div>
                 <button
                   onClick={() =>
@@ -497,11 +577,23 @@ function AssignmentEditor({
   onPriorityChange,
   onClassNumberChange,
   onInstructionChange,
+  onPageRangesChange,
   onStatusChange,
+  onPersonalStateChange,
   onDelete,
   onDuplicate,
 }: AssignmentEditorProps) {
   const [cls, _, __] = useZoteroClassMetadata(collectionId);
+  const savedPagesText = pageRangesToText(assignment.pageRanges);
+  const [pagesText, setPagesText] = useState(savedPagesText);
+  const [pagesError, setPagesError] = useState(false);
+
+  // Update local state when the assignment changes externally
+  useEffect(() => {
+    setPagesText(savedPagesText);
+    setPagesError(false);
+  }, [savedPagesText]);
+
   const assignmentClass = assignment.classNumber
     ? cls.classes[assignment.classNumber]
     : null;
@@ -512,11 +604,23 @@ function AssignmentEditor({
 
   const classTitle = assignmentClass?.title || "";
 
+  // A locked syllabus only lets students change their reading status
+  const canEditAssignment = editable && !cls.locked;
+
   const { singularCapitalized } =
     SyllabusManager.getNomenclatureFormatted(collectionId);
 
   const assignmentStatus = assignment.status || null;
-  const isDone = assignmentStatus === "done";
+  const isDone = SyllabusManager.isStatusComplete(
+    collectionId,
+    assignmentStatus,
+  );
+  const statusOptions =
+    SyllabusManager.getReadingStatusesForCollection(collectionId);
+  const personalState = SyllabusManager.getPersonalAssignmentState(
+    collectionId,
+    assignment.id,
+  );
 
   return (
     <div className="border border-quinary rounded-md m-0 flex flex-col opacity-100 transition-opacity duration-200 bg-background divide-y divide-quarternary space-y-2.5 *:not-last:pb-2.5 p-2.5 z-10">
@@ -550,7 +654,7 @@ function AssignmentEditor({
               onStatusChange(
                 assignment.id!,
                 collectionId,
-                isDone ? null : "done",
+                isDone ? null : SyllabusManager.getDoneStatusId(collectionId),
               )
             }
             disabled={isSaving}
@@ -597,7 +701,7 @@ function AssignmentEditor({
           type="number"
           min="1"
           step="1"
-          disabled={!editable || isSaving}
+          disabled={!canEditAssignment || isSaving}
           placeholder="e.g., 1, 2, 3..."
           value={assignment.classNumber}
           onChange={(e) => {
@@ -625,7 +729,7 @@ function AssignmentEditor({
         <label className="w-1/4 shrink-0 grow-0">Priority</label>
         <div className="flex flex-col gap-1 -my-1">
           {/* Quick Priority Buttons */}
-          {editable && (
+          {canEditAssignment && (
             <div className="flex flex-wrap">
               {priorityOptions
                 .filter((opt) => opt.value !== "")
@@ -683,6 +787,111 @@ function AssignmentEditor({
               </button>
             </div>
           )}
+          {/* Read-only priority */}
+          {!canEditAssignment &&
+            priorityOptions
+              .filter((opt) => opt.value && opt.value === assignment.priority)
+              .map((opt) => (
+                <span
+                  key={opt.value}
+                  className="px-2 py-1 text-xs font-medium inline-flex flex-row gap-2 items-center flex-nowrap text-primary"
+                >
+                  {opt.color && (
+                    <span
+                      className="w-2 h-2 rounded-full inline-block"
+                      style={{ backgroundColor: opt.color }}
+                    />
+                  )}
+                  {opt.label}
+                </span>
+              ))}
+        </div>
+      </div>
+
+      {/* Reading status */}
+      <div className="flex flex-row gap-2">
+        <label className="w-1/4 shrink-0 grow-0">Status</label>
+        <div className="flex flex-col gap-1 -my-1">
+          <div className="flex flex-wrap">
+            {statusOptions.map((opt) => {
+              const isSelected = opt.id === assignmentStatus;
+              return (
+                <button
+                  key={opt.id}
+                  type="button"
+                  onClick={() =>
+                    onStatusChange(
+                      assignment.id!,
+                      collectionId,
+                      isSelected ? null : opt.id,
+                    )
+                  }
+                  disabled={!editable || isSaving}
+                  className={twMerge(
+                    "px-2 py-1 text-xs font-medium inline-flex flex-row gap-2 items-center flex-nowrap",
+                    "hover:bg-quinary active:bg-quarternary hover:border-quinary hover:text-primary rounded-md",
+                    isSelected ? "bg-quinary" : "bg-transparent",
+                    isSelected ? "border-quinary" : "border-transparent",
+                    isSelected ? "text-primary" : "text-secondary",
+                    !editable || isSaving
+                      ? "opacity-30 cursor-not-allowed"
+                      : "opacity-100 cursor-pointer",
+                  )}
+                  title={opt.name}
+                >
+                  {opt.color && (
+                    <span
+                      className="w-2 h-2 rounded-full inline-block"
+                      style={{ backgroundColor: opt.color }}
+                    />
+                  )}
+                  {opt.name}
+                </button>
+              );
+            })}
+          </div>
+          {assignmentStatus && assignment.statusChangedAt && (
+            <div className="px-2 text-xs text-secondary">
+              Changed {formatDate(new Date(assignment.statusChangedAt), "PPp")}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Pages */}
+      <div className="flex flex-row gap-2">
+        <label className="w-1/4 shrink-0 grow-0">Pages</label>
+        <div className="flex flex-col gap-1 w-full">
+          <input
+            type="text"
+            disabled={!canEditAssignment || isSaving}
+            placeholder="e.g., 45-78, 90-95"
+            value={pagesText}
+            onInput={(e) => setPagesText((e.target as HTMLInputElement).value)}
+            onBlur={() => {
+              if (pagesText === savedPagesText) return;
+              const ranges = parsePageRanges(pagesText);
+              setPagesError(!ranges);
+              if (ranges) {
+                onPageRangesChange(assignment.id!, collectionId, ranges);
+              }
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                (e.target as HTMLInputElement).blur();
+              }
+            }}
+            className="w-full border-0 hover:not-focus:bg-quinary hover:not-focus:cursor-pointer px-1.5! m-0! box-border"
+          />
+          {pagesError ? (
+            <div className="px-1.5 text-xs text-red-500">
+              Use page numbers or ranges, separated by commas
+            </div>
+          ) : assignment.pageRanges?.length ? (
+            <div className="px-1.5 text-xs text-secondary">
+              {countPagesInRanges(assignment.pageRanges)} pages assigned
+            </div>
+          ) : null}
         </div>
       </div>
 
@@ -690,7 +899,7 @@ function AssignmentEditor({
       <div className="flex flex-row gap-2">
         <label className="w-1/4 shrink-0 grow-0">Instructions</label>
         <textarea
-          disabled={!editable || isSaving}
+          disabled={!canEditAssignment || isSaving}
           rows={3}
           value={assignment.classInstruction || ""}
           onChange={(e) => {
@@ -702,8 +911,45 @@ function AssignmentEditor({
         />
       </div>
 
+      {/* Personal notes and time spent (only visible to this user) */}
+      <div className="flex flex-row gap-2">
+        <label className="w-1/4 shrink-0 grow-0">My notes</label>
+        <textarea
+          disabled={!editable}
+          rows={2}
+          value={personalState?.notes || ""}
+          onChange={(e) =>
+            onPersonalStateChange(assignment.id!, collectionId, {
+              notes: (e.target as HTMLTextAreaElement).value || null,
+            })
+          }
+          placeholder="Private notes, not shared with the group..."
+          className="-my-2 p-2 w-full border border-transparent rounded-md bg-background text-primary resize-vertical font-inherit min-h-10 transition-border-color duration-150 box-border hover:not-focus:bg-quinary hover:not-focus:cursor-pointer"
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        <label className="w-1/4 shrink-0 grow-0">Time spent</label>
+        <input
+          type="number"
+          min="0"
+          step="5"
+          disabled={!editable}
+          placeholder="Minutes"
+          value={personalState?.timeSpent ?? ""}
+          onChange={(e) => {
+            const value = (e.target as HTMLInputElement).value.trim();
+            const minutes = parseInt(value, 10);
+            onPersonalStateChange(assignment.id!, collectionId, {
+              timeSpent: value && minutes >= 0 ? minutes : null,
+            });
+          }}
+          className="w-24 border-0 hover:not-focus:bg-quinary hover:not-focus:cursor-pointer px-1.5! m-0! box-border"
+        />
+        <span className="text-secondary">min</span>
+      </div>
+
       {/* Action Buttons */}
-      {editable && (
+      {canEditAssignment && (
         <div className="flex justify-between relative flex-0">
           <button
             type="button"
@@ -0,0 +1,303 @@
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+import { h, Fragment } from "preact";
+import { useMemo, useState } from "preact/hooks";
+import { twMerge } from "tailwind-merge";
+import {
+  addDays,
+  addMonths,
+  endOfMonth,
+  endOfWeek,
+  formatDate,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { ChevronLeft, ChevronRight } from "lucide-preact";
+import { SyllabusManager } from "./syllabus";
+import type { ClassReading } from "./ReadingSchedule";
+import { formatReadingDate } from "../utils/dates";
+
+// Syllabi are coloured in turn, in alphabetical order
+const SYLLABUS_COLORS = [
+  "#3B82F6",
+  "#8B5CF6",
+  "#F97316",
+  "#10B981",
+  "#EC4899",
+  "#EAB308",
+  "#06B6D4",
+  "#EF4444",
+];
+
+const DATE_KEY_FORMAT = "yyyy-MM-dd";
+
+export function ReadingCalendar({
+  readingsByWeek,
+  onCollectionClick,
+  onItemClick,
+}: {
+  readingsByWeek: Map<string, Map<string, ClassReading[]>>;
+  onCollectionClick: (collectionId: number) => void;
+  onItemClick: (item: Zotero.Item, collectionId: number) => void;
+}) {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [openClassKey, setOpenClassKey] = useState<string | null>(null);
+
+  // Day (yyyy-MM-dd) -> classes with readings due that day
+  const readingsByDay = useMemo(() => {
+    const result = new Map<string, ClassReading[]>();
+    for (const weekData of readingsByWeek.values()) {
+      for (const [readingDate, classReadings] of weekData) {
+        const dayKey = formatDate(new Date(readingDate), DATE_KEY_FORMAT);
+        result.set(dayKey, [...(result.get(dayKey) || []), ...classReadings]);
+      }
+    }
+    return result;
+  }, [readingsByWeek]);
+
+  const colorByCollection = useMemo(() => {
+    const collections = new Map<number, string>();
+    for (const classReadings of readingsByDay.values()) {
+      for (const classReading of classReadings) {
+        collections.set(classReading.collectionId, classReading.collectionName);
+      }
+    }
+    const result = new Map<number, { name: string; color: string }>();
+    Array.from(collections.entries())
+      .sort((a, b) => a[1].localeCompare(b[1]))
+      .forEach(([collectionId, name], index) => {
+        result.set(collectionId, {
+          name,
+          color: SYLLABUS_COLORS[index % SYLLABUS_COLORS.length],
+        });
+      });
+    return result;
+  }, [readingsByDay]);
+
+  // Whole weeks covering the month
+  const days = useMemo(() => {
+    const result: Date[] = [];
+    const last = endOfWeek(endOfMonth(month));
+    for (
+      let day = startOfWeek(month);
+      day.getTime() <= last.getTime();
+      day = addDays(day, 1)
+    ) {
+      result.push(day);
+    }
+    return result;
+  }, [month]);
+
+  const changeMonth = (next: Date) => {
+    setOpenClassKey(null);
+    setMonth(startOfMonth(next));
+  };
+
+  return (
+    <div className="container-padded space-y-4">
+      <div className="flex flex-row items-center gap-2">
+        <div className="text-2xl font-semibold flex-1">
+          {formatDate(month, "MMMM yyyy")}
+        </div>
+        <button onClick={() => changeMonth(new Date())}>Today</button>
+        <button
+          onClick={() => changeMonth(addMonths(month, -1))}
+          title="Previous month"
+          aria-label="Previous month"
+        >
+          <ChevronLeft size={16} />
+        </button>
+        <button
+          onClick={() => changeMonth(addMonths(month, 1))}
+          title="Next month"
+          aria-label="Next month"
+        >
+          <ChevronRight size={16} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 border-t border-l border-quinary">
+        {days.slice(0, 7).map((day) => (
+          <div
+            key={`heading-${day.getDay()}`}
+            className="border-r border-b border-quinary px-2 py-1 text-sm text-secondary"
+          >
+            {formatDate(day, "EEE")}
+          </div>
+        ))}
+        {days.map((day) => {
+          const dayKey = formatDate(day, DATE_KEY_FORMAT);
+          const classReadings = readingsByDay.get(dayKey) || [];
+          return (
+            <div
+              key={dayKey}
+              className={twMerge(
+                "relative min-h-24 border-r border-b border-quinary p-1 space-y-1",
+                isSameMonth(day, month) ? "" : "text-tertiary",
+              )}
+            >
+              <div
+                className={twMerge(
+                  "text-sm px-1",
+                  isToday(day)
+                    ? "inline-block rounded-full bg-accent-blue text-white"
+                    : "",
+                )}
+              >
+                {formatDate(day, "d")}
+              </div>
+              {classReadings.map((classReading) => {
+                const classKey = `${dayKey}-${classReading.collectionId}-${classReading.classNumber}`;
+                const color =
+                  colorByCollection.get(classReading.collectionId)?.color ||
+                  "#AAA";
+                const isDone =
+                  SyllabusManager.getClassStatus(
+                    classReading.collectionId,
+                    classReading.classNumber,
+                  ) === "done";
+                const { singularCapitalized } =
+                  SyllabusManager.getNomenclatureFormatted(
+                    classReading.collectionId,
+                  );
+                return (
+                  <div key={classKey}>
+                    <div
+                      className={twMerge(
+                        "text-xs rounded px-1 py-0.5 truncate cursor-pointer text-white",
+                        isDone ? "opacity-50 line-through" : "",
+                      )}
+                      style={{ backgroundColor: color }}
+                      title={`${classReading.collectionName}: ${singularCapitalized} ${classReading.classNumber}`}
+                      onClick={() =>
+                        setOpenClassKey(
+                          openClassKey === classKey ? null : classKey,
+                        )
+                      }
+                    >
+                      {classReading.classTitle ||
+                        `${singularCapitalized} ${classReading.classNumber}`}
+                    </div>
+                    {openClassKey === classKey && (
+                      <ClassPopover
+                        classReading={classReading}
+                        color={color}
+                        onClose={() => setOpenClassKey(null)}
+                        onCollectionClick={onCollectionClick}
+                        onItemClick={onItemClick}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-row flex-wrap gap-x-4 gap-y-1 text-sm text-secondary">
+        {Array.from(colorByCollection.entries()).map(
+          ([collectionId, { name, color }]) => (
+            <span
+              key={collectionId}
+              className="inline-flex items-center gap-1 cursor-pointer hover:text-primary"
+              onClick={() => onCollectionClick(collectionId)}
+            >
+              <span
+                className="inline-block w-2 h-2 rounded-full"
+                style={{ backgroundColor: color }}
+              />
+              {name}
+            </span>
+          ),
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ClassPopover({
+  classReading,
+  color,
+  onClose,
+  onCollectionClick,
+  onItemClick,
+}: {
+  classReading: ClassReading;
+  color: string;
+  onClose: () => void;
+  onCollectionClick: (collectionId: number) => void;
+  onItemClick: (item: Zotero.Item, collectionId: number) => void;
+}) {
+  const { collectionId, classNumber } = classReading;
+  const { singularCapitalized } =
+    SyllabusManager.getNomenclatureFormatted(collectionId);
+
+  return (
+    <>
+      {/* Clicking anywhere else closes the popover */}
+      <div className="fixed inset-0 z-30" onClick={onClose} />
+      <div
+        className="absolute left-0 top-full z-40 w-80 max-w-[80vw] rounded-md border border-quinary bg-background shadow-lg p-3 space-y-2 text-primary"
+        style={{ borderTopColor: color, borderTopWidth: "4px" }}
+        role="dialog"
+        onKeyDown={(e) => {
+          if (e.key === "Escape") onClose();
+        }}
+      >
+        <div
+          className="cursor-pointer hover:bg-quinary rounded-md px-1 -mx-1"
+          onClick={() => onCollectionClick(collectionId)}
+        >
+          <div className="font-semibold">{classReading.collectionName}</div>
+          <div className="text-sm text-secondary">
+            {singularCapitalized} {classNumber}
+            {classReading.classTitle
+              ? `: ${classReading.classTitle}`
+              : ""} · {formatReadingDate(classReading.readingDate)}
+          </div>
+        </div>
+        <ul className="space-y-1">
+          {classReading.items.map(({ item, assignment }) => {
+            const status = SyllabusManager.getReadingStatus(
+              collectionId,
+              assignment.status,
+            );
+            const priority = SyllabusManager.getPriorityDisplay(
+              collectionId,
+              assignment.priority || undefined,
+            );
+            return (
+              <li
+                key={`${item.id}-assignment-${assignment.id}`}
+                className="flex flex-row items-baseline gap-2 text-sm cursor-pointer hover:bg-quinary rounded-md px-1 -mx-1"
+                onClick={() => onItemClick(item, collectionId)}
+              >
+                <span
+                  className="inline-block w-2 h-2 rounded-full shrink-0"
+                  style={{ backgroundColor: priority.color }}
+                  title={priority.label}
+                />
+                <span
+                  className={twMerge(
+                    "flex-1",
+                    status?.complete ? "line-through text-secondary" : "",
+                  )}
+                >
+                  {item.getDisplayTitle()}
+                </span>
+                <span
+                  className="shrink-0 text-xs"
+                  style={{ color: status?.color || undefined }}
+                >
+                  {status?.name || "—"}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </>
+  );
+}
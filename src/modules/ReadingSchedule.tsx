@@ -1,6 +1,6 @@
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import { h, Fragment } from "preact";
-import { useMemo } from "preact/hooks";
+import { useMemo, useState } from "preact/hooks";
 import { twMerge } from "tailwind-merge";
 import { SyllabusManager, ItemSyllabusAssignment } from "./syllabus";
 import { SyllabusItemCard } from "./SyllabusPage";
@@ -11,25 +11,74 @@ import {
   isThisMonth,
   isThisWeek,
   setDefaultOptions,
+  startOfDay,
   startOfWeek,
 } from "date-fns";
 import { useZoteroCompactMode } from "./react-zotero-sync/compactMode";
 import { useSyllabi } from "./react-zotero-sync/useSyllabi";
+import { useZoteroPersonalProgress } from "./react-zotero-sync/personalProgress";
 import { getPref } from "../utils/prefs";
 import { TabManager } from "../utils/tabManager";
 import { getCachedCollectionById } from "../utils/cache";
 import { isSameWeek } from "date-fns/fp";
 import { formatReadingDate } from "../utils/dates";
+import { saveToFile } from "../utils/file";
+import { CalendarDays, CalendarRange, ChartColumn, List } from "lucide-preact";
+import { WorkloadReport } from "./WorkloadReport";
+import { ReadingCalendar } from "./ReadingCalendar";
+import {
+  EMPTY_READING_SCHEDULE_FILTERS,
+  ReadingScheduleFilterBar,
+  ReadingScheduleFilters,
+  filterClassReading,
+  hasActiveFilters,
+} from "./ReadingScheduleFilters";
+import {
+  ReadingScheduleView,
+  useZoteroReadingScheduleView,
+} from "./react-zotero-sync/readingScheduleView";
 
 setDefaultOptions({
   weekStartsOn: 1,
 });
 
-export function ReadingSchedule() {
+const VIEW_OPTIONS: Array<{
+  value: ReadingScheduleView;
+  label: string;
+  Icon: typeof List;
+}> = [
+  { value: "schedule", label: "Show as list", Icon: List },
+  { value: "calendar", label: "Show as calendar", Icon: CalendarRange },
+  { value: "workload", label: "Show workload", Icon: ChartColumn },
+];
+
+export interface ReadingScheduleParams {
+  filters?: ReadingScheduleFilters;
+}
+
+export function ReadingSchedule({
+  params,
+}: {
+  params?: ReadingScheduleParams;
+}) {
   const [compactMode] = useZoteroCompactMode();
+  const [view, setView] = useZoteroReadingScheduleView();
+  const [showHistory, setShowHistory] = useState(false);
+  const [filters, setFilters] = useState<ReadingScheduleFilters>(() => ({
+    ...EMPTY_READING_SCHEDULE_FILTERS,
+    ...params?.filters,
+  }));
+
+  // Keep the filters in the tab's params so they survive a restart
+  const handleFiltersChange = (next: ReadingScheduleFilters) => {
+    setFilters(next);
+    SyllabusManager.readingScheduleTab?.updateParams({ filters: next });
+  };
 
   // Get all syllabi data (collections with metadata and items)
   const syllabi = useSyllabi();
+  // Class status may come from the user's personal progress
+  const personalProgress = useZoteroPersonalProgress();
 
   // Compute readings grouped by week and date
   const readingsByWeek = useMemo(() => {
@@ -105,6 +154,9 @@ export function ReadingSchedule() {
           items: sortedItems,
         };
 
+        const filteredClassReading = filterClassReading(classReading, filters);
+        if (!filteredClassReading) continue;
+
         // Add to result
         if (!result.has(weekStartKey)) {
           result.set(weekStartKey, new Map());
@@ -115,7 +167,7 @@ export function ReadingSchedule() {
         if (!weekData.has(readingDate)) {
           weekData.set(readingDate, []);
         }
-        weekData.get(readingDate)!.push(classReading);
+        weekData.get(readingDate)!.push(filteredClassReading);
       }
     }
 
@@ -132,19 +184,82 @@ export function ReadingSchedule() {
     }
 
     return result;
-  }, [syllabi]);
+  }, [syllabi, filters]);
 
-  // Convert to sorted array for rendering, filtering out past weeks
+  // Convert to sorted array for rendering, leaving out past weeks
+  // unless the user is browsing the history
   const sortedWeeks = useMemo(() => {
     const currentWeekStart = startOfWeek(new Date());
 
     return Array.from(readingsByWeek.keys())
       .filter((weekKey) => {
-        // Only include weeks from the current week onwards
-        return new Date(weekKey).getTime() >= currentWeekStart.getTime();
+        return (
+          showHistory ||
+          new Date(weekKey).getTime() >= currentWeekStart.getTime()
+        );
       })
       .sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
-  }, [readingsByWeek]);
+  }, [readingsByWeek, showHistory]);
+
+  // Past classes with readings that are not yet done, grouped by syllabus
+  const overdueBySyllabus = useMemo(() => {
+    const today = startOfDay(new Date());
+    const result = new Map<number, ClassReading[]>();
+
+    for (const weekData of readingsByWeek.values()) {
+      for (const [readingDate, classReadings] of weekData) {
+        if (new Date(readingDate).getTime() >= today.getTime()) continue;
+
+        for (const classReading of classReadings) {
+          const { collectionId, classNumber } = classReading;
+          if (
+            SyllabusManager.getClassStatus(collectionId, classNumber) === "done"
+          ) {
+            continue;
+          }
+
+          const items = classReading.items.filter(
+            ({ assignment }) =>
+              assignment.id &&
+              !SyllabusManager.isStatusComplete(
+                collectionId,
+                assignment.status,
+              ),
+          );
+          if (items.length === 0) continue;
+
+          if (!result.has(collectionId)) {
+            result.set(collectionId, []);
+          }
+          result.get(collectionId)!.push({ ...classReading, items });
+        }
+      }
+    }
+
+    // Oldest classes first, so the longest overdue are caught up first
+    for (const classes of result.values()) {
+      classes.sort(
+        (a, b) =>
+          new Date(a.readingDate).getTime() - new Date(b.readingDate).getTime(),
+      );
+    }
+
+    return Array.from(result.values()).sort((a, b) =>
+      a[0].collectionName.localeCompare(b[0].collectionName),
+    );
+  }, [readingsByWeek, personalProgress]);
+
+  const handleExportCalendar = async () => {
+    try {
+      const icsContent = SyllabusManager.prepareCalendarExport(
+        syllabi.map((syllabus) => syllabus.collection.id),
+        "Reading Schedule",
+      );
+      await saveToFile("reading-schedule.ics", icsContent, "Save Calendar");
+    } catch (err) {
+      ztoolkit.log("Error exporting calendar:", err);
+    }
+  };
 
   const handleCollectionClick = (collectionId: number) => {
     try {
@@ -188,7 +303,31 @@ export function ReadingSchedule() {
     }
   };
 
-  if (sortedWeeks.length === 0) {
+  const handleMarkClassDone = async (overdueClass: ClassReading) => {
+    try {
+      const { collectionId, classNumber, items } = overdueClass;
+      const doneStatus = SyllabusManager.getDoneStatusId(collectionId);
+      for (const { item, assignment } of items) {
+        await SyllabusManager.updateClassAssignment(
+          item,
+          collectionId,
+          assignment.id!,
+          { status: doneStatus },
+          "page",
+        );
+      }
+      await SyllabusManager.setClassStatus(
+        collectionId,
+        classNumber,
+        "done",
+        "page",
+      );
+    } catch (err) {
+      ztoolkit.log("Error marking class as done:", err);
+    }
+  };
+
+  if (readingsByWeek.size === 0 && !hasActiveFilters(filters)) {
     return (
       <div className="syllabus-page overflow-y-auto overflow-x-hidden h-full">
         <div className="container-padded py-12">
@@ -235,240 +374,325 @@ export function ReadingSchedule() {
             Zotero.version.startsWith("8.") ? "pt-4 md:pt-8" : "pt-8",
           )}
         >
-          <div className="container-padded bg-background">
+          <div className="container-padded bg-background flex flex-row items-center gap-2 justify-between">
             <div className={twMerge("font-semibold text-3xl")}>
-              Reading Schedule
+              {view === "workload" ? "Workload" : "Reading Schedule"}
+            </div>
+            <div className="grow-0 shrink-0 flex items-center ml-auto">
+              {VIEW_OPTIONS.map(({ value, label, Icon }) => (
+                <div
+                  key={value}
+                  className="flex items-center cursor-pointer"
+                  title={label}
+                  aria-label={label}
+                  aria-pressed={view === value}
+                  onClick={() => setView(value)}
+                >
+                  <Icon
+                    size={20}
+                    className={twMerge(
+                      "text-secondary hover:text-primary hover:bg-quinary rounded p-1",
+                      view === value ? "text-primary bg-quinary" : "",
+                    )}
+                  />
+                </div>
+              ))}
+            </div>
+            <div
+              className="grow-0 shrink-0 flex items-center cursor-pointer"
+              title="Export calendar"
+              aria-label="Export calendar"
+              onClick={handleExportCalendar}
+            >
+              <CalendarDays
+                size={20}
+                className="text-secondary hover:text-primary hover:bg-quinary rounded p-1"
+              />
             </div>
           </div>
         </div>
 
         <p className="container-padded text-secondary text-lg">
-          Add reading dates to classes to see them here.
+          {view === "workload"
+            ? "Estimated reading time per week across all your syllabi. Select a week to see which classes contribute to it."
+            : "Add reading dates to classes to see them here."}
         </p>
 
-        <div className={twMerge("flex flex-col gap-8 mt-8")}>
-          {sortedWeeks.map((weekStartKey) => {
-            const weekData = readingsByWeek.get(weekStartKey)!;
-            const sortedDates = Array.from(weekData.keys()).sort(
-              (a, b) => new Date(a).getTime() - new Date(b).getTime(),
-            );
-
-            // Convert weekStartKey back to Date for formatting
-            const weekStartDate = new Date(weekStartKey);
-
-            return (
-              <div key={weekStartKey} className="syllabus-class-group">
-                <div
-                  className={twMerge(
-                    "container-padded",
-                    "text-3xl sticky top-12 z-10 py-2 bg-background text-tertiary",
-                    Zotero.version.startsWith("8.") ? "md:top-16" : "top-12",
-                  )}
-                >
-                  <WeekHeader weekStartDate={weekStartDate} />
-                </div>
-
-                <div className="container-padded">
-                  <div className="space-y-12 my-6">
-                    {sortedDates.map((dateTimestamp) => {
-                      const classReadings = weekData.get(dateTimestamp)!;
-
-                      // Sort classes by collection name, then by class number
-                      const sortedClassReadings = [...classReadings].sort(
-                        (a, b) => {
-                          // First sort by collection name
-                          const collectionCompare =
-                            a.collectionName.localeCompare(b.collectionName);
-                          if (collectionCompare !== 0) return collectionCompare;
-                          // Then sort by class number
-                          return a.classNumber - b.classNumber;
-                        },
-                      );
-
-                      return (
-                        <div key={dateTimestamp}>
-                          <div
-                            className={twMerge("mb-3 text-secondary text-2xl")}
-                          >
-                            {formatReadingDate(
-                              dateTimestamp,
-                              !isThisMonth(new Date(dateTimestamp)),
-                            )}
-                          </div>
-
-                          <div className="space-y-8">
-                            {sortedClassReadings.map((classReading) => {
-                              const { singularCapitalized, singular } =
-                                SyllabusManager.getNomenclatureFormatted(
-                                  classReading.collectionId,
-                                );
+        <ReadingScheduleFilterBar
+          syllabi={syllabi}
+          filters={filters}
+          onChange={handleFiltersChange}
+        />
+
+        {view !== "calendar" && (
+          <div className="container-padded mt-2">
+            <button onClick={() => setShowHistory(!showHistory)}>
+              {showHistory ? "Hide past weeks" : "Show past weeks"}
+            </button>
+          </div>
+        )}
+
+        {view === "schedule" && overdueBySyllabus.length > 0 && (
+          <CatchUpSection
+            overdueBySyllabus={overdueBySyllabus}
+            compactMode={compactMode}
+            onCollectionClick={handleCollectionClick}
+            onItemClick={handleItemClick}
+            onMarkClassDone={handleMarkClassDone}
+          />
+        )}
+
+        {view === "calendar" ? (
+          <div className="mt-8">
+            <ReadingCalendar
+              readingsByWeek={readingsByWeek}
+              onCollectionClick={handleCollectionClick}
+              onItemClick={handleItemClick}
+            />
+          </div>
+        ) : view === "workload" ? (
+          <div className="mt-8">
+            <WorkloadReport
+              readingsByWeek={readingsByWeek}
+              weekKeys={sortedWeeks}
+              onClassClick={handleCollectionClick}
+            />
+          </div>
+        ) : (
+          <div className={twMerge("flex flex-col gap-8 mt-8")}>
+            {sortedWeeks.length === 0 && hasActiveFilters(filters) && (
+              <p className="container-padded text-secondary">
+                No readings match the filters.
+              </p>
+            )}
+            {sortedWeeks.map((weekStartKey) => {
+              const weekData = readingsByWeek.get(weekStartKey)!;
+              const sortedDates = Array.from(weekData.keys()).sort(
+                (a, b) => new Date(a).getTime() - new Date(b).getTime(),
+              );
+
+              // Convert weekStartKey back to Date for formatting
+              const weekStartDate = new Date(weekStartKey);
+
+              return (
+                <div key={weekStartKey} className="syllabus-class-group">
+                  <div
+                    className={twMerge(
+                      "container-padded",
+                      "text-3xl sticky top-12 z-10 py-2 bg-background text-tertiary",
+                      Zotero.version.startsWith("8.") ? "md:top-16" : "top-12",
+                    )}
+                  >
+                    <WeekHeader weekStartDate={weekStartDate} />
+                  </div>
 
-                              const classStatus =
-                                SyllabusManager.getClassStatus(
-                                  classReading.collectionId,
-                                  classReading.classNumber,
-                                );
+                  <div className="container-padded">
+                    <div className="space-y-12 my-6">
+                      {sortedDates.map((dateTimestamp) => {
+                        const classReadings = weekData.get(dateTimestamp)!;
+
+                        // Sort classes by collection name, then by class number
+                        const sortedClassReadings = [...classReadings].sort(
+                          (a, b) => {
+                            // First sort by collection name
+                            const collectionCompare =
+                              a.collectionName.localeCompare(b.collectionName);
+                            if (collectionCompare !== 0)
+                              return collectionCompare;
+                            // Then sort by class number
+                            return a.classNumber - b.classNumber;
+                          },
+                        );
+
+                        return (
+                          <div key={dateTimestamp}>
+                            <div
+                              className={twMerge(
+                                "mb-3 text-secondary text-2xl",
+                              )}
+                            >
+                              {formatReadingDate(
+                                dateTimestamp,
+                                !isThisMonth(new Date(dateTimestamp)),
+                              )}
+                            </div>
+
+                            <div className="space-y-8">
+                              {sortedClassReadings.map((classReading) => {
+                                const { singularCapitalized, singular } =
+                                  SyllabusManager.getNomenclatureFormatted(
+                                    classReading.collectionId,
+                                  );
 
-                              const handleClassStatusToggle = async () => {
-                                try {
-                                  const newStatus =
-                                    classStatus === "done" ? null : "done";
-                                  await SyllabusManager.setClassStatus(
+                                const classStatus =
+                                  SyllabusManager.getClassStatus(
                                     classReading.collectionId,
                                     classReading.classNumber,
-                                    newStatus,
-                                    "page",
-                                  );
-                                } catch (err) {
-                                  ztoolkit.log(
-                                    "Error toggling class status:",
-                                    err,
                                   );
-                                }
-                              };
-
-                              return (
-                                <div
-                                  key={`${classReading.collectionId}-${classReading.classNumber}`}
-                                  className={twMerge(
-                                    "relative",
-                                    classStatus === "done" ? "opacity-40" : "",
-                                  )}
-                                >
-                                  <div className="flex flex-col gap-2 mb-2">
-                                    <div>
-                                      <input
-                                        type="checkbox"
-                                        checked={classStatus === "done"}
-                                        onChange={handleClassStatusToggle}
-                                        className={twMerge(
-                                          "absolute right-full mr-1 w-4 h-4 cursor-pointer shrink-0 self-center in-[.print]:hidden accent-accent-green!",
-                                          Zotero.version.startsWith("8.")
-                                            ? "md:mr-2!"
-                                            : "mr-2!",
-                                        )}
-                                        title={
-                                          classStatus === "done"
-                                            ? "Mark as not done"
-                                            : "Mark as done"
-                                        }
-                                        aria-label={
-                                          classStatus === "done"
-                                            ? "Mark as not done"
-                                            : "Mark as done"
-                                        }
-                                      />
-                                      <div
-                                        className={twMerge(
-                                          "text-xl flex-1",
-                                          classStatus === "done"
-                                            ? "line-through"
-                                            : "",
-                                          "hover:cursor-pointer hover:bg-quinary active:bg-quarternary rounded-md px-1 -mx-1 inline-block",
-                                        )}
-                                        onClick={() =>
-                                          handleCollectionClick(
-                                            classReading.collectionId,
-                                          )
-                                        }
-                                      >
-                                        {classReading.classTitle ? (
-                                          <>
-                                            <span className="font-semibold">
-                                              {classReading.classTitle}
-                                            </span>
-                                            <span className="text-secondary">
-                                              ,{" "}
-                                            </span>
-                                          </>
-                                        ) : null}
-                                        <span className="text-secondary">
-                                          {classReading.classTitle
-                                            ? singular
-                                            : singularCapitalized}{" "}
-                                          {classReading.classNumber}
-                                        </span>
-                                        <span className="text-secondary">
-                                          {" "}
-                                          of{" "}
-                                        </span>
-                                        <span
-                                          className={twMerge("font-semibold")}
-                                        >
-                                          {classReading.collectionName}
-                                        </span>
-                                      </div>
-                                    </div>
-                                    {classReading.classDescription && (
-                                      <div className="text-base mb-1">
-                                        {classReading.classDescription}
-                                      </div>
-                                    )}
-                                  </div>
+
+                                const handleClassStatusToggle = async () => {
+                                  try {
+                                    const newStatus =
+                                      classStatus === "done" ? null : "done";
+                                    await SyllabusManager.setClassStatus(
+                                      classReading.collectionId,
+                                      classReading.classNumber,
+                                      newStatus,
+                                      "page",
+                                    );
+                                  } catch (err) {
+                                    ztoolkit.log(
+                                      "Error toggling class status:",
+                                      err,
+                                    );
+                                  }
+                                };
+
+                                return (
                                   <div
+                                    key={`${classReading.collectionId}-${classReading.classNumber}`}
                                     className={twMerge(
-                                      "space-y-2",
-                                      compactMode ? "space-y-2" : "space-y-4",
+                                      "relative",
+                                      classStatus === "done"
+                                        ? "opacity-40"
+                                        : "",
                                     )}
                                   >
-                                    {classReading.items.map(
-                                      ({ item, assignment }) => {
-                                        if (!assignment.id) return null;
-
-                                        const priority =
-                                          assignment.priority || "";
-                                        const uniqueKey = `${item.id}-assignment-${assignment.id}`;
-
-                                        return (
-                                          <SyllabusItemCard
-                                            key={uniqueKey}
-                                            item={item}
-                                            collectionId={
-                                              classReading.collectionId
-                                            }
-                                            classNumber={
-                                              classReading.classNumber
-                                            }
-                                            assignment={assignment}
-                                            slim={
-                                              compactMode ||
-                                              !priority ||
-                                              priority === "optional"
-                                            }
-                                            compactMode={compactMode}
-                                            isLocked={true}
-                                            onClick={(item) =>
-                                              handleItemClick(
-                                                item,
-                                                classReading.collectionId,
-                                              )
-                                            }
-                                            readerMode
-                                            className="cursor-pointer"
-                                          />
-                                        );
-                                      },
-                                    )}
+                                    <div className="flex flex-col gap-2 mb-2">
+                                      <div>
+                                        <input
+                                          type="checkbox"
+                                          checked={classStatus === "done"}
+                                          onChange={handleClassStatusToggle}
+                                          className={twMerge(
+                                            "absolute right-full mr-1 w-4 h-4 cursor-pointer shrink-0 self-center in-[.print]:hidden accent-accent-green!",
+                                            Zotero.version.startsWith("8.")
+                                              ? "md:mr-2!"
+                                              : "mr-2!",
+                                          )}
+                                          title={
+                                            classStatus === "done"
+                                              ? "Mark as not done"
+                                              : "Mark as done"
+                                          }
+                                          aria-label={
+                                            classStatus === "done"
+                                              ? "Mark as not done"
+                                              : "Mark as done"
+                                          }
+                                        />
+                                        <div
+                                          className={twMerge(
+                                            "text-xl flex-1",
+                                            classStatus === "done"
+                                              ? "line-through"
+                                              : "",
+                                            "hover:cursor-pointer hover:bg-quinary active:bg-quarternary rounded-md px-1 -mx-1 inline-block",
+                                          )}
+                                          onClick={() =>
+                                            handleCollectionClick(
+                                              classReading.collectionId,
+                                            )
+                                          }
+                                        >
+                                          {classReading.classTitle ? (
+                                            <>
+                                              <span className="font-semibold">
+                                                {classReading.classTitle}
+                                              </span>
+                                              <span className="text-secondary">
+                                                ,{" "}
+                                              </span>
+                                            </>
+                                          ) : null}
+                                          <span className="text-secondary">
+                                            {classReading.classTitle
+                                              ? singular
+                                              : singularCapitalized}{" "}
+                                            {classReading.classNumber}
+                                          </span>
+                                          <span className="text-secondary">
+                                            {" "}
+                                            of{" "}
+                                          </span>
+                                          <span
+                                            className={twMerge("font-semibold")}
+                                          >
+                                            {classReading.collectionName}
+                                          </span>
+                                        </div>
+                                      </div>
+                                      {classReading.classDescription && (
+                                        <div className="text-base mb-1">
+                                          {classReading.classDescription}
+                                        </div>
+                                      )}
+                                    </div>
+                                    <div
+                                      className={twMerge(
+                                        "space-y-2",
+                                        compactMode ? "space-y-2" : "space-y-4",
+                                      )}
+                                    >
+                                      {classReading.items.map(
+                                        ({ item, assignment }) => {
+                                          if (!assignment.id) return null;
+
+                                          const priority =
+                                            assignment.priority || "";
+                                          const uniqueKey = `${item.id}-assignment-${assignment.id}`;
+
+                                          return (
+                                            <SyllabusItemCard
+                                              key={uniqueKey}
+                                              item={item}
+                                              collectionId={
+                                                classReading.collectionId
+                                              }
+                                              classNumber={
+                                                classReading.classNumber
+                                              }
+                                              assignment={assignment}
+                                              slim={
+                                                compactMode ||
+                                                !priority ||
+                                                priority === "optional"
+                                              }
+                                              compactMode={compactMode}
+                                              isLocked={true}
+                                              onClick={(item) =>
+                                                handleItemClick(
+                                                  item,
+                                                  classReading.collectionId,
+                                                )
+                                              }
+                                              readerMode
+                                              className="cursor-pointer"
+                                            />
+                                          );
+                                        },
+                                      )}
+                                    </div>
                                   </div>
-                                </div>
-                              );
-                            })}
+                                );
+                              })}
+                            </div>
                           </div>
-                        </div>
-                      );
-                    })}
+                        );
+                      })}
+                    </div>
                   </div>
                 </div>
-              </div>
-            );
-          })}
-        </div>
+              );
+            })}
+          </div>
+        )}
       </div>
     </div>
   );
 }
 
-interface ClassReading {
+export interface ClassReading {
   collectionId: number;
   collectionName: string;
   classNumber: number;
@@ -478,6 +702,105 @@ interface ClassReading {
   items: Array<{ item: Zotero.Item; assignment: ItemSyllabusAssignment }>;
 }
 
+function CatchUpSection({
+  overdueBySyllabus,
+  compactMode,
+  onCollectionClick,
+  onItemClick,
+  onMarkClassDone,
+}: {
+  overdueBySyllabus: ClassReading[][];
+  compactMode: boolean;
+  onCollectionClick: (collectionId: number) => void;
+  onItemClick: (item: Zotero.Item, collectionId: number) => void;
+  onMarkClassDone: (overdueClass: ClassReading) => void;
+}) {
+  const readingCount = overdueBySyllabus
+    .flat()
+    .reduce((total, overdueClass) => total + overdueClass.items.length, 0);
+
+  return (
+    <div className="container-padded mt-8 space-y-6">
+      <div className="text-3xl text-tertiary">
+        Catch up{" "}
+        <span className="text-xl">
+          · {readingCount} {readingCount === 1 ? "reading" : "readings"} from
+          past classes not done yet
+        </span>
+      </div>
+
+      {overdueBySyllabus.map((classes) => (
+        <div key={classes[0].collectionId} className="space-y-6">
+          <div
+            className="text-2xl font-semibold hover:cursor-pointer hover:bg-quinary active:bg-quarternary rounded-md px-1 -mx-1 inline-block"
+            onClick={() => onCollectionClick(classes[0].collectionId)}
+          >
+            {classes[0].collectionName}
+          </div>
+
+          {classes.map((overdueClass) => {
+            const { singularCapitalized } =
+              SyllabusManager.getNomenclatureFormatted(
+                overdueClass.collectionId,
+              );
+            return (
+              <div
+                key={`${overdueClass.collectionId}-${overdueClass.classNumber}`}
+                className="space-y-2"
+              >
+                <div className="flex flex-row items-baseline gap-2">
+                  <div className="text-xl flex-1">
+                    <span className="text-secondary">
+                      {singularCapitalized} {overdueClass.classNumber}
+                    </span>
+                    {overdueClass.classTitle && (
+                      <span className="font-semibold">
+                        {" "}
+                        {overdueClass.classTitle}
+                      </span>
+                    )}
+                    <span className="text-secondary">
+                      {" "}
+                      · {formatReadingDate(overdueClass.readingDate)}
+                    </span>
+                  </div>
+                  <button onClick={() => onMarkClassDone(overdueClass)}>
+                    Mark all done
+                  </button>
+                </div>
+                <div className={compactMode ? "space-y-2" : "space-y-4"}>
+                  {overdueClass.items.map(({ item, assignment }) => {
+                    const priority = assignment.priority || "";
+                    return (
+                      <SyllabusItemCard
+                        key={`${item.id}-assignment-${assignment.id}`}
+                        item={item}
+                        collectionId={overdueClass.collectionId}
+                        classNumber={overdueClass.classNumber}
+                        assignment={assignment}
+                        slim={
+                          compactMode || !priority || priority === "optional"
+                        }
+                        compactMode={compactMode}
+                        isLocked={true}
+                        onClick={(item) =>
+                          onItemClick(item, overdueClass.collectionId)
+                        }
+                        readerMode
+                        className="cursor-pointer"
+                      />
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 function WeekHeader({ weekStartDate }: { weekStartDate: Date }) {
   const start = startOfWeek(weekStartDate);
   let str = "";
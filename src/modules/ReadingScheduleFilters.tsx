@@ -0,0 +1,226 @@
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+import { h, Fragment } from "preact";
+import { useMemo } from "preact/hooks";
+import { twMerge } from "tailwind-merge";
+import { SyllabusManager } from "./syllabus";
+import type { ClassReading } from "./ReadingSchedule";
+import type { SyllabusData } from "./react-zotero-sync/useSyllabi";
+
+export interface ReadingScheduleFilters {
+  syllabi: number[]; // Collection IDs
+  priorities: string[]; // Priority IDs ("" = no priority)
+  statuses: string[]; // Reading status IDs ("" = no status)
+  query: string;
+}
+
+export const EMPTY_READING_SCHEDULE_FILTERS: ReadingScheduleFilters = {
+  syllabi: [],
+  priorities: [],
+  statuses: [],
+  query: "",
+};
+
+export function hasActiveFilters(filters: ReadingScheduleFilters): boolean {
+  return (
+    filters.syllabi.length > 0 ||
+    filters.priorities.length > 0 ||
+    filters.statuses.length > 0 ||
+    filters.query.trim() !== ""
+  );
+}
+
+function includesQuery(text: string | null | undefined, query: string) {
+  return !!text && text.toLocaleLowerCase().includes(query);
+}
+
+/**
+ * Limit a class to the readings matching the filters
+ * Returns null if the class should be hidden altogether
+ */
+export function filterClassReading(
+  classReading: ClassReading,
+  filters: ReadingScheduleFilters,
+): ClassReading | null {
+  if (
+    filters.syllabi.length > 0 &&
+    !filters.syllabi.includes(classReading.collectionId)
+  ) {
+    return null;
+  }
+
+  const query = filters.query.trim().toLocaleLowerCase();
+  // A matching class title keeps all of the class' readings
+  const classMatches =
+    !query ||
+    includesQuery(classReading.classTitle, query) ||
+    includesQuery(classReading.classDescription, query);
+
+  const items = classReading.items.filter(({ item, assignment }) => {
+    if (
+      filters.priorities.length > 0 &&
+      !filters.priorities.includes(assignment.priority || "")
+    ) {
+      return false;
+    }
+    if (
+      filters.statuses.length > 0 &&
+      !filters.statuses.includes(assignment.status || "")
+    ) {
+      return false;
+    }
+    if (classMatches) {
+      return true;
+    }
+    return (
+      includesQuery(item.getDisplayTitle(), query) ||
+      includesQuery(assignment.classInstruction, query) ||
+      item
+        .getCreators()
+        .some((creator) =>
+          includesQuery(
+            `${creator.firstName || ""} ${creator.lastName || ""}`,
+            query,
+          ),
+        )
+    );
+  });
+
+  if (items.length === 0) {
+    return null;
+  }
+  return { ...classReading, items };
+}
+
+export function ReadingScheduleFilterBar({
+  syllabi,
+  filters,
+  onChange,
+}: {
+  syllabi: SyllabusData[];
+  filters: ReadingScheduleFilters;
+  onChange: (filters: ReadingScheduleFilters) => void;
+}) {
+  // Options come from each syllabus' own priorities and statuses
+  // (limited to the selected syllabi, if any)
+  const { priorityOptions, statusOptions } = useMemo(() => {
+    const priorities = new Map<string, string>();
+    const statuses = new Map<string, string>();
+    for (const { collection } of syllabi) {
+      if (
+        filters.syllabi.length > 0 &&
+        !filters.syllabi.includes(collection.id)
+      ) {
+        continue;
+      }
+      for (const priority of SyllabusManager.getPrioritiesForCollection(
+        collection.id,
+      )) {
+        if (!priorities.has(priority.id)) {
+          priorities.set(priority.id, priority.name);
+        }
+      }
+      for (const status of SyllabusManager.getReadingStatusesForCollection(
+        collection.id,
+      )) {
+        if (!statuses.has(status.id)) {
+          statuses.set(status.id, status.name);
+        }
+      }
+    }
+    priorities.set("", "No priority");
+    statuses.set("", "No status");
+    return {
+      priorityOptions: Array.from(priorities.entries()),
+      statusOptions: Array.from(statuses.entries()),
+    };
+  }, [syllabi, filters.syllabi]);
+
+  const toggle = <T,>(values: T[], value: T) =>
+    values.includes(value)
+      ? values.filter((v) => v !== value)
+      : [...values, value];
+
+  return (
+    <div className="container-padded mt-4 space-y-2">
+      <div className="flex flex-row items-center gap-2">
+        <input
+          type="search"
+          value={filters.query}
+          placeholder="Search classes, titles, authors and instructions"
+          onInput={(e) =>
+            onChange({ ...filters, query: e.currentTarget.value })
+          }
+          className="flex-1 px-4 py-2 border border-quinary rounded-md bg-background text-primary focus:outline-3 focus:outline-accent-blue focus:outline-offset-2"
+          aria-label="Search the reading schedule"
+        />
+        {hasActiveFilters(filters) && (
+          <button onClick={() => onChange(EMPTY_READING_SCHEDULE_FILTERS)}>
+            Clear filters
+          </button>
+        )}
+      </div>
+      <FilterChips
+        label="Syllabus"
+        options={syllabi.map(({ collection }) => [
+          collection.id,
+          collection.name,
+        ])}
+        selected={filters.syllabi}
+        onToggle={(id) =>
+          onChange({ ...filters, syllabi: toggle(filters.syllabi, id) })
+        }
+      />
+      <FilterChips
+        label="Priority"
+        options={priorityOptions}
+        selected={filters.priorities}
+        onToggle={(id) =>
+          onChange({ ...filters, priorities: toggle(filters.priorities, id) })
+        }
+      />
+      <FilterChips
+        label="Status"
+        options={statusOptions}
+        selected={filters.statuses}
+        onToggle={(id) =>
+          onChange({ ...filters, statuses: toggle(filters.statuses, id) })
+        }
+      />
+    </div>
+  );
+}
+
+function FilterChips<T extends string | number>({
+  label,
+  options,
+  selected,
+  onToggle,
+}: {
+  label: string;
+  options: Array<[T, string]>;
+  selected: T[];
+  onToggle: (value: T) => void;
+}) {
+  return (
+    <div className="flex flex-row flex-wrap items-center gap-1 text-sm">
+      <span className="text-secondary mr-1">{label}:</span>
+      {options.map(([value, name]) => {
+        const isSelected = selected.includes(value);
+        return (
+          <span
+            key={String(value)}
+            role="button"
+            aria-pressed={isSelected}
+            onClick={() => onToggle(value)}
+            className={twMerge(
+              "cursor-pointer rounded-full border border-quinary px-2 py-0.5 text-secondary hover:bg-quinary",
+              isSelected ? "bg-quinary text-primary font-semibold" : "",
+            )}
+          >
+            {name}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
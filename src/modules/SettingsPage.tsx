@@ -2,17 +2,30 @@
 import { h, Fragment } from "preact";
 import { useState, useEffect, useCallback, useMemo } from "preact/hooks";
 import { twMerge } from "tailwind-merge";
-import { SyllabusManager } from "./syllabus";
+import { SyllabusManager, SyllabusSnapshotComparison } from "./syllabus";
 import pluralize from "pluralize";
 import { useZoteroSyllabusMetadata } from "./react-zotero-sync/syllabusMetadata";
+import { useZoteroSyllabusSnapshots } from "./react-zotero-sync/syllabusSnapshots";
 import { useDebouncedEffect } from "../utils/react/useDebouncedEffect";
-import { Priority, PrioritySchema } from "../utils/schemas";
+import {
+  Priority,
+  PrioritySchema,
+  ReadingStatus,
+  ReadingStatusSchema,
+  SyllabusSnapshot,
+} from "../utils/schemas";
 import { uuidv7 } from "uuidv7";
 import {
   getAvailableStyles,
   getStyleName,
   getQuickCopyStyle,
 } from "../utils/cite";
+import {
+  DateRange,
+  formatReadingDate,
+  generateMeetingDates,
+} from "../utils/dates";
+import { formatDate } from "date-fns";
 
 interface SettingsPageProps {
   collectionId: number;
@@ -32,11 +45,16 @@ export function SettingsPage({ collectionId, onBack }: SettingsPageProps) {
     _setLocked,
     _setLinks,
     setCslStyle,
+    setReadingStatuses,
   ] = useZoteroSyllabusMetadata(collectionId);
 
   // Use local state for immediate UI feedback, but save immediately
   const priorities =
     metadata.priorities || SyllabusManager.getDefaultPriorities();
+  const statuses =
+    metadata.statuses && metadata.statuses.length > 0
+      ? metadata.statuses
+      : SyllabusManager.getDefaultReadingStatuses();
   const nomenclature = metadata.nomenclature || "class";
 
   // Local state for nomenclature input (for immediate UI feedback)
@@ -126,6 +144,51 @@ export function SettingsPage({ collectionId, onBack }: SettingsPageProps) {
     },
     [priorities, setPriorities],
   );
+
+  const handleStatusChange = useCallback(
+    (statusId: string, updates: Partial<ReadingStatus>) => {
+      const updated = statuses.map((s) =>
+        s.id === statusId ? { ...s, ...updates } : s,
+      );
+      setReadingStatuses(updated);
+    },
+    [statuses, setReadingStatuses],
+  );
+
+  const handleStatusOrderChange = useCallback(
+    (statusId: string, direction: "up" | "down") => {
+      const sorted = [...statuses].sort((a, b) => a.order - b.order);
+      const index = sorted.findIndex((s) => s.id === statusId);
+      const swapIndex = direction === "up" ? index - 1 : index + 1;
+      if (index === -1 || swapIndex < 0 || swapIndex >= sorted.length) return;
+      [sorted[index], sorted[swapIndex]] = [sorted[swapIndex], sorted[index]];
+      setReadingStatuses(sorted.map((s, i) => ({ ...s, order: i + 1 })));
+    },
+    [statuses, setReadingStatuses],
+  );
+
+  const handleAddStatus = useCallback(() => {
+    const newStatus: ReadingStatus = ReadingStatusSchema.parse({
+      id: `custom-${uuidv7()}`,
+      name: "New Status",
+      color: "#808080",
+      order: statuses.length + 1,
+    });
+    setReadingStatuses([...statuses, newStatus]);
+  }, [statuses, setReadingStatuses]);
+
+  const handleDeleteStatus = useCallback(
+    (statusId: string) => {
+      // Don't allow deleting if only one status remains
+      if (statuses.length <= 1) return;
+      const updated = statuses
+        .filter((s) => s.id !== statusId)
+        .map((s, index) => ({ ...s, order: index + 1 }));
+      setReadingStatuses(updated);
+    },
+    [statuses, setReadingStatuses],
+  );
+
   const pluralNomenclature = useMemo(
     () => pluralize(localNomenclature),
     [localNomenclature],
@@ -271,6 +334,53 @@ export function SettingsPage({ collectionId, onBack }: SettingsPageProps) {
                 ))}
             </div>
           </section>
+
+          {/* Reading Statuses Section */}
+          <section className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="text-2xl font-semibold">Reading Statuses</h2>
+                <p className="text-secondary mt-1">
+                  Customize the statuses readers can give each reading. Complete
+                  statuses tick the reading off.
+                </p>
+              </div>
+              <button
+                onClick={handleAddStatus}
+                title="Add new status"
+                aria-label="Add new status"
+              >
+                + Add Status
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              {[...statuses]
+                .sort((a, b) => a.order - b.order)
+                .map((status, index) => (
+                  <ReadingStatusEditor
+                    key={status.id}
+                    status={status}
+                    isFirst={index === 0}
+                    isLast={index === statuses.length - 1}
+                    onUpdate={(updates) =>
+                      handleStatusChange(status.id, updates)
+                    }
+                    onMove={(direction) =>
+                      handleStatusOrderChange(status.id, direction)
+                    }
+                    onDelete={() => handleDeleteStatus(status.id)}
+                    canDelete={statuses.length > 1}
+                  />
+                ))}
+            </div>
+          </section>
+
+          {/* Schedule Generator Section */}
+          <ScheduleGenerator collectionId={collectionId} />
+
+          {/* Snapshot History Section */}
+          <SnapshotHistory collectionId={collectionId} />
         </div>
       </div>
     </div>
@@ -394,3 +504,533 @@ function PriorityEditor({
     </div>
   );
 }
+
+interface ReadingStatusEditorProps {
+  status: ReadingStatus;
+  isFirst: boolean;
+  isLast: boolean;
+  onUpdate: (updates: Partial<ReadingStatus>) => void;
+  onMove: (direction: "up" | "down") => void;
+  onDelete: () => void;
+  canDelete: boolean;
+}
+
+function ReadingStatusEditor({
+  status,
+  isFirst,
+  isLast,
+  onUpdate,
+  onMove,
+  onDelete,
+  canDelete,
+}: ReadingStatusEditorProps) {
+  return (
+    <div className="border border-quinary rounded-md p-4 bg-quinary/30">
+      <div className="flex items-center gap-4">
+        {/* Order Controls */}
+        <div className="flex flex-col gap-1">
+          <button
+            onClick={() => onMove("up")}
+            disabled={isFirst}
+            className={twMerge(
+              "px-2 py-1 rounded text-sm",
+              isFirst
+                ? "text-tertiary cursor-not-allowed"
+                : "text-primary hover:bg-quaternary",
+            )}
+            title="Move up"
+            aria-label="Move up"
+          >
+            ↑
+          </button>
+          <button
+            onClick={() => onMove("down")}
+            disabled={isLast}
+            className={twMerge(
+              "px-2 py-1 rounded text-sm",
+              isLast
+                ? "text-tertiary cursor-not-allowed"
+                : "text-primary hover:bg-quaternary",
+            )}
+            title="Move down"
+            aria-label="Move down"
+          >
+            ↓
+          </button>
+        </div>
+
+        {/* Color Picker */}
+        <div className="flex flex-0! items-center gap-2">
+          <input
+            type="color"
+            value={status.color || "#CCC"}
+            onChange={(e) => onUpdate({ color: e.currentTarget.value })}
+            className="w-12 h-12 rounded border border-quinary cursor-pointer"
+            title="Status color"
+            aria-label="Status color"
+          />
+        </div>
+
+        {/* Name Input */}
+        <div className="flex">
+          <label className="text-sm font-medium text-secondary block mb-1">
+            Name
+          </label>
+          <input
+            type="text"
+            value={status.name}
+            onChange={(e) => onUpdate({ name: e.currentTarget.value })}
+            className="m-0 px-3 py-2 border border-quinary rounded-md bg-background text-primary focus:outline-3 focus:outline-accent-blue focus:outline-offset-2"
+            placeholder="Status name"
+          />
+        </div>
+
+        {/* Complete Toggle */}
+        <label className="inline-flex items-center gap-2 text-sm text-secondary">
+          <input
+            type="checkbox"
+            checked={status.complete}
+            onChange={(e) => onUpdate({ complete: e.currentTarget.checked })}
+          />
+          Complete
+        </label>
+
+        {/* Delete Button */}
+        {canDelete && (
+          <button
+            onClick={onDelete}
+            className="text-red-500! justify-self-end"
+            title="Delete status"
+            aria-label="Delete status"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const WEEKDAYS = [
+  { day: 1, label: "Mon" },
+  { day: 2, label: "Tue" },
+  { day: 3, label: "Wed" },
+  { day: 4, label: "Thu" },
+  { day: 5, label: "Fri" },
+  { day: 6, label: "Sat" },
+  { day: 0, label: "Sun" },
+];
+
+function ScheduleGenerator({ collectionId }: { collectionId: number }) {
+  const [metadata] = useZoteroSyllabusMetadata(collectionId);
+  const { singular, singularCapitalized, plural } =
+    SyllabusManager.getNomenclatureFormatted(collectionId);
+
+  const [termStart, setTermStart] = useState("");
+  const [weekdays, setWeekdays] = useState<number[]>([]);
+  const [excluded, setExcluded] = useState<DateRange[]>([]);
+  const [excludeStart, setExcludeStart] = useState("");
+  const [excludeEnd, setExcludeEnd] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const classNumbers = useMemo(
+    () => SyllabusManager.getFullClassNumberRange(collectionId),
+    [collectionId, metadata],
+  );
+
+  // Class number -> generated reading date (yyyy-MM-dd)
+  const preview = useMemo(() => {
+    if (!termStart || weekdays.length === 0) return [];
+    const dates = generateMeetingDates(
+      termStart,
+      weekdays,
+      excluded,
+      classNumbers.length,
+    );
+    return classNumbers.map((classNumber, index) => ({
+      classNumber,
+      date: dates[index] as string | undefined,
+    }));
+  }, [termStart, weekdays, excluded, classNumbers]);
+
+  const toggleWeekday = (day: number) => {
+    setWeekdays((prev) =>
+      prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day],
+    );
+  };
+
+  const handleAddExclusion = () => {
+    if (!excludeStart) return;
+    const end = excludeEnd && excludeEnd >= excludeStart ? excludeEnd : "";
+    setExcluded((prev) =>
+      [...prev, { start: excludeStart, end: end || excludeStart }].sort(
+        (a, b) => a.start.localeCompare(b.start),
+      ),
+    );
+    setExcludeStart("");
+    setExcludeEnd("");
+  };
+
+  const handleApply = async () => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      let count = 0;
+      for (const { classNumber, date } of preview) {
+        if (!date) continue;
+        // Stored like ReadingDateInput does (UTC midnight of the chosen day)
+        await SyllabusManager.setClassReadingDate(
+          collectionId,
+          classNumber,
+          new Date(date).toISOString(),
+          "page",
+        );
+        count++;
+      }
+      setMessage(
+        `Reading dates set for ${count} ${count === 1 ? singular : plural}.`,
+      );
+    } catch (err) {
+      ztoolkit.log("Error generating reading dates:", err);
+      setMessage(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClassName =
+    "px-4 py-2 border border-quinary rounded-md bg-background text-primary focus:outline-3 focus:outline-accent-blue focus:outline-offset-2";
+
+  return (
+    <section className="space-y-4">
+      <h2 className="text-2xl font-semibold">Schedule</h2>
+      <p className="text-secondary">
+        Fill in the reading dates of all {plural} from the term's start date and
+        meeting days. Existing dates are replaced.
+      </p>
+
+      <div className="flex flex-col gap-2">
+        <label className="text-sm font-medium text-secondary">
+          First day of term
+        </label>
+        <input
+          type="date"
+          value={termStart}
+          onChange={(e) => setTermStart(e.currentTarget.value)}
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <label className="text-sm font-medium text-secondary">Meets on</label>
+        <div className="flex flex-row flex-wrap gap-2">
+          {WEEKDAYS.map(({ day, label }) => (
+            <label key={day} className="inline-flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={weekdays.includes(day)}
+                onChange={() => toggleWeekday(day)}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <label className="text-sm font-medium text-secondary">
+          No classes on (holidays, reading weeks)
+        </label>
+        <div className="flex flex-row flex-wrap items-center gap-2">
+          <input
+            type="date"
+            value={excludeStart}
+            onChange={(e) => setExcludeStart(e.currentTarget.value)}
+            className={inputClassName}
+            aria-label="Excluded from"
+          />
+          <span className="text-secondary">to</span>
+          <input
+            type="date"
+            value={excludeEnd}
+            onChange={(e) => setExcludeEnd(e.currentTarget.value)}
+            className={inputClassName}
+            aria-label="Excluded until (optional)"
+          />
+          <button onClick={handleAddExclusion} disabled={!excludeStart}>
+            + Add
+          </button>
+        </div>
+        {excluded.length > 0 && (
+          <ul className="space-y-1">
+            {excluded.map((range, index) => (
+              <li
+                key={`${range.start}-${range.end}`}
+                className="flex flex-row items-center gap-2"
+              >
+                <span>
+                  {formatReadingDate(range.start)}
+                  {range.end !== range.start &&
+                    ` – ${formatReadingDate(range.end)}`}
+                </span>
+                <button
+                  onClick={() =>
+                    setExcluded((prev) => prev.filter((_, i) => i !== index))
+                  }
+                  title="Remove"
+                  aria-label="Remove excluded dates"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {classNumbers.length === 0 ? (
+        <p className="text-secondary">
+          This syllabus has no {plural} to schedule yet.
+        </p>
+      ) : (
+        preview.length > 0 && (
+          <>
+            <table className="w-full text-left">
+              <thead>
+                <tr className="text-secondary">
+                  <th className="py-1 pr-4">{singularCapitalized}</th>
+                  <th className="py-1 pr-4">Current date</th>
+                  <th className="py-1">New date</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.map(({ classNumber, date }) => {
+                  const current = metadata.classes?.[classNumber]?.readingDate;
+                  const title = SyllabusManager.getClassTitle(
+                    collectionId,
+                    classNumber,
+                  );
+                  return (
+                    <tr key={classNumber} className="border-t border-quinary">
+                      <td className="py-1 pr-4">
+                        {classNumber}
+                        {title ? ` – ${title}` : ""}
+                      </td>
+                      <td className="py-1 pr-4 text-secondary">
+                        {current ? formatReadingDate(current) : "—"}
+                      </td>
+                      <td className="py-1">
+                        {date ? formatReadingDate(date) : "—"}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <button onClick={handleApply} disabled={isSaving}>
+              {isSaving ? "Saving…" : "Set reading dates"}
+            </button>
+          </>
+        )
+      )}
+
+      {message && <p className="text-secondary">{message}</p>}
+    </section>
+  );
+}
+
+function SnapshotHistory({ collectionId }: { collectionId: number }) {
+  const snapshots = useZoteroSyllabusSnapshots(collectionId);
+  const [metadata] = useZoteroSyllabusMetadata(collectionId);
+  const { singular, plural } =
+    SyllabusManager.getNomenclatureFormatted(collectionId);
+  const isLocked = SyllabusManager.getLocked(collectionId);
+
+  const [comparedId, setComparedId] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const compared = snapshots?.find((snapshot) => snapshot.id === comparedId);
+  const comparison = useMemo(() => {
+    if (!compared) return null;
+    try {
+      return SyllabusManager.compareSnapshot(collectionId, compared);
+    } catch (err) {
+      ztoolkit.log("Error comparing snapshot:", err);
+      return null;
+    }
+  }, [collectionId, compared, metadata]);
+
+  const handleRestore = async (snapshot: SyllabusSnapshot) => {
+    if (
+      !Zotero.getMainWindow().confirm(
+        `Restore this syllabus to how it was on ${formatSnapshotDate(snapshot)}? A snapshot of how it is now is saved first.`,
+      )
+    ) {
+      return;
+    }
+    setIsRestoring(true);
+    setMessage(null);
+    try {
+      await SyllabusManager.restoreSnapshot(collectionId, snapshot.id, "page");
+      setComparedId(null);
+      setMessage(`Restored the snapshot from ${formatSnapshotDate(snapshot)}.`);
+    } catch (err) {
+      ztoolkit.log("Error restoring snapshot:", err);
+      setMessage(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const handleDelete = async (snapshot: SyllabusSnapshot) => {
+    try {
+      await SyllabusManager.deleteSnapshot(collectionId, snapshot.id);
+      if (comparedId === snapshot.id) setComparedId(null);
+    } catch (err) {
+      ztoolkit.log("Error deleting snapshot:", err);
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      <h2 className="text-2xl font-semibold">History</h2>
+      <p className="text-secondary">
+        A snapshot of the syllabus ({plural}, settings and readings) is saved
+        before imports and deletions. Compare a snapshot with the syllabus as it
+        is now, or restore it.
+      </p>
+
+      {message && <p className="text-secondary">{message}</p>}
+
+      {snapshots === null ? (
+        <p className="text-secondary">Loading…</p>
+      ) : snapshots.length === 0 ? (
+        <p className="text-secondary">No snapshots yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {snapshots.map((snapshot) => {
+            const isCompared = snapshot.id === comparedId;
+            const classCount = Object.keys(snapshot.metadata.classes).length;
+            const readingCount = Object.values(snapshot.assignments).reduce(
+              (total, assignments) => total + assignments.length,
+              0,
+            );
+            return (
+              <li
+                key={snapshot.id}
+                className="p-3 border border-quinary rounded-md space-y-2"
+              >
+                <div className="flex flex-row items-center gap-2">
+                  <div className="flex-1">
+                    <div className="font-semibold">{snapshot.reason}</div>
+                    <div className="text-sm text-secondary">
+                      {formatSnapshotDate(snapshot)} · {classCount}{" "}
+                      {classCount === 1 ? singular : plural} · {readingCount}{" "}
+                      {readingCount === 1 ? "reading" : "readings"}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() =>
+                      setComparedId(isCompared ? null : snapshot.id)
+                    }
+                  >
+                    {isCompared ? "Hide changes" : "Compare"}
+                  </button>
+                  <button
+                    onClick={() => handleRestore(snapshot)}
+                    disabled={isRestoring || isLocked}
+                    title={
+                      isLocked ? "Unlock the syllabus to restore" : undefined
+                    }
+                  >
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => handleDelete(snapshot)}
+                    disabled={isRestoring}
+                    title="Delete snapshot"
+                    aria-label="Delete snapshot"
+                  >
+                    ×
+                  </button>
+                </div>
+                {isCompared && comparison && (
+                  <SnapshotComparison
+                    collectionId={collectionId}
+                    comparison={comparison}
+                  />
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+function formatSnapshotDate(snapshot: SyllabusSnapshot) {
+  return formatDate(new Date(snapshot.createdAt), "d MMM yyyy, HH:mm");
+}
+
+function SnapshotComparison({
+  collectionId,
+  comparison,
+}: {
+  collectionId: number;
+  comparison: SyllabusSnapshotComparison;
+}) {
+  const { singularCapitalized } =
+    SyllabusManager.getNomenclatureFormatted(collectionId);
+  const { metadata, readings, missingItems } = comparison;
+
+  const lines: string[] = [
+    ...metadata.fields.map(({ field }) => `${field} changes`),
+    ...metadata.classes.added.map(
+      (classNumber) => `${singularCapitalized} ${classNumber} comes back`,
+    ),
+    ...metadata.classes.removed.map(
+      (classNumber) =>
+        `${singularCapitalized} ${classNumber} details are cleared`,
+    ),
+    ...metadata.classes.changed.map(
+      ({ classNumber, fields }) =>
+        `${singularCapitalized} ${classNumber}: ${fields.join(", ")} changes`,
+    ),
+    ...metadata.priorities.added.map((name) => `Priority "${name}" comes back`),
+    ...metadata.priorities.removed.map(
+      (name) => `Priority "${name}" is removed`,
+    ),
+    ...metadata.priorities.changed.map((name) => `Priority "${name}" changes`),
+    ...readings.added.map((title) => `"${title}" is assigned again`),
+    ...readings.removed.map((title) => `"${title}" is unassigned`),
+    ...readings.changed.map((title) => `"${title}" assignments change`),
+  ];
+
+  return (
+    <div className="text-sm space-y-1">
+      {lines.length === 0 ? (
+        <p className="text-secondary">
+          Restoring this snapshot changes nothing.
+        </p>
+      ) : (
+        <>
+          <p className="text-secondary">Restoring this snapshot:</p>
+          <ul className="list-disc pl-5">
+            {lines.map((line) => (
+              <li key={line}>{line}</li>
+            ))}
+          </ul>
+        </>
+      )}
+      {missingItems > 0 && (
+        <p className="text-secondary">
+          {missingItems} {missingItems === 1 ? "reading is" : "readings are"} no
+          longer in the collection and won't be restored.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+import { h, Fragment } from "preact";
+import { useState, useCallback } from "preact/hooks";
+import { twMerge } from "tailwind-merge";
+import {
+  SyllabusManager,
+  SyllabusImportPreview,
+  SyllabusImportStrategy,
+  SyllabusMetadataDiff,
+} from "./syllabus";
+
+interface SyllabusImportPageProps {
+  collectionId: number;
+  fileName: string;
+  fileContents: string;
+  preview: SyllabusImportPreview;
+  onBack: () => void;
+}
+
+export function SyllabusImportPage({
+  collectionId,
+  fileName,
+  fileContents,
+  preview,
+  onBack,
+}: SyllabusImportPageProps) {
+  const { singularCapitalized, plural } =
+    SyllabusManager.getNomenclatureFormatted(collectionId);
+
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleImport = useCallback(
+    async (strategy: SyllabusImportStrategy) => {
+      setIsImporting(true);
+      setError(null);
+      try {
+        const { items } = await SyllabusManager.importSyllabusMetadata(
+          collectionId,
+          fileContents,
+          "page",
+          strategy,
+        );
+        const progressWindow = new ztoolkit.ProgressWindow("Import Success", {
+          closeOnClick: true,
+          closeTime: 5000,
+        }).createLine({
+          text:
+            strategy === "replace"
+              ? "Successfully imported and replaced syllabus metadata"
+              : "Successfully imported and merged syllabus metadata",
+          type: "success",
+        });
+        if (items.matched + items.created > 0) {
+          progressWindow.createLine({
+            text: `${items.matched} readings matched existing items, ${items.created} created`,
+            type: "default",
+          });
+        }
+        progressWindow.show();
+        onBack();
+      } catch (err) {
+        ztoolkit.log("Error importing syllabus:", err);
+        setError(err instanceof Error ? err.message : String(err));
+        setIsImporting(false);
+      }
+    },
+    [collectionId, fileContents, onBack],
+  );
+
+  const renderDiff = (diff: SyllabusMetadataDiff) => {
+    const lines: string[] = [];
+    for (const field of diff.fields) {
+      lines.push(
+        field.to
+          ? `${field.field}: "${field.from || "—"}" → "${field.to}"`
+          : `${field.field} will be cleared`,
+      );
+    }
+    if (diff.classes.added.length > 0) {
+      lines.push(
+        `New ${plural}: ${diff.classes.added.map((n) => `${singularCapitalized} ${n}`).join(", ")}`,
+      );
+    }
+    for (const changed of diff.classes.changed) {
+      lines.push(
+        `${singularCapitalized} ${changed.classNumber}: ${changed.fields.join(", ")} changed`,
+      );
+    }
+    if (diff.classes.removed.length > 0) {
+      lines.push(
+        `Removed ${plural}: ${diff.classes.removed.map((n) => `${singularCapitalized} ${n}`).join(", ")}`,
+      );
+    }
+    if (diff.priorities.added.length > 0) {
+      lines.push(`New priorities: ${diff.priorities.added.join(", ")}`);
+    }
+    if (diff.priorities.changed.length > 0) {
+      lines.push(`Changed priorities: ${diff.priorities.changed.join(", ")}`);
+    }
+    if (diff.priorities.removed.length > 0) {
+      lines.push(`Removed priorities: ${diff.priorities.removed.join(", ")}`);
+    }
+
+    if (lines.length === 0) {
+      return <p className="text-secondary">No changes to syllabus details.</p>;
+    }
+    return (
+      <ul className="list-disc pl-6 space-y-1">
+        {lines.map((line, index) => (
+          <li key={index}>{line}</li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <div className="syllabus-page overflow-y-auto overflow-x-hidden h-full">
+      <div className="pb-12">
+        <div
+          className={twMerge(
+            "sticky top-0 z-10 bg-background py-1",
+            Zotero.version.startsWith("8.") ? "md:pt-8" : "pt-8",
+          )}
+        >
+          <div className="container-padded bg-background">
+            <div className="flex flex-row items-center gap-4 justify-between">
+              <div className="flex-1 text-3xl font-semibold">
+                Import syllabus
+              </div>
+              <div className="inline-flex items-center gap-2 shrink grow-0">
+                <button
+                  onClick={onBack}
+                  title="Cancel import"
+                  aria-label="Cancel import"
+                >
+                  ← Back
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="container-padded mt-8 space-y-8">
+          <p className="text-secondary">
+            Review what importing <strong>{fileName}</strong> will change before
+            applying it.
+          </p>
+
+          {preview.collectionTitle && (
+            <section className="space-y-4">
+              <h2 className="text-2xl font-semibold">Title</h2>
+              <p>
+                "{preview.collectionTitle.from}" → "{preview.collectionTitle.to}
+                "
+              </p>
+            </section>
+          )}
+
+          <section className="space-y-4">
+            <h2 className="text-2xl font-semibold">Readings</h2>
+            {preview.items.matched.length === 0 &&
+            preview.items.created.length === 0 ? (
+              <p className="text-secondary">The file contains no readings.</p>
+            ) : (
+              <>
+                <p className="text-secondary">
+                  {preview.items.created.length} new to your library,{" "}
+                  {preview.items.matched.length} already in your library (these
+                  are reused, not duplicated).
+                </p>
+                <ul className="list-disc pl-6 space-y-1">
+                  {preview.items.created.map((title, index) => (
+                    <li key={`created-${index}`}>{title}</li>
+                  ))}
+                  {preview.items.matched.map((title, index) => (
+                    <li key={`matched-${index}`} className="text-secondary">
+                      {title} (already in library)
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </section>
+
+          <section className="space-y-4">
+            <h2 className="text-2xl font-semibold">Merge</h2>
+            <p className="text-secondary">
+              Keep existing {plural} and details, updating them with anything in
+              the file.
+            </p>
+            {renderDiff(preview.metadata.merge)}
+          </section>
+
+          <section className="space-y-4">
+            <h2 className="text-2xl font-semibold">Replace</h2>
+            <p className="text-secondary">
+              Replace the syllabus details with the file's, removing anything
+              the file doesn't include.
+            </p>
+            {renderDiff(preview.metadata.replace)}
+          </section>
+
+          {error && <p className="text-red-500">{error}</p>}
+
+          <div className="flex flex-row gap-2">
+            <button
+              onClick={() => handleImport("merge")}
+              disabled={isImporting}
+            >
+              {isImporting ? "Importing…" : "Merge"}
+            </button>
+            <button
+              onClick={() => handleImport("replace")}
+              disabled={isImporting}
+            >
+              Replace
+            </button>
+            <button onClick={onBack} disabled={isImporting}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
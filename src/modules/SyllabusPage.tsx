@@ -20,6 +20,7 @@ import {
   ItemSyllabusAssignment,
   SettingsSyllabusMetadata,
   SettingsClassMetadata,
+  SyllabusImportPreview,
 } from "./syllabus";
 import { getCachedItem, getCachedCollectionById } from "../utils/cache";
 import { renderComponent } from "../utils/react";
@@ -27,8 +28,11 @@ import { useZoteroCollectionTitle } from "./react-zotero-sync/collectionTitle";
 import { useZoteroSyllabusMetadata } from "./react-zotero-sync/syllabusMetadata";
 import { useZoteroCollectionItems } from "./react-zotero-sync/collectionItems";
 import { useZoteroSelectedItemIds } from "./react-zotero-sync/selectedItem";
+import { useZoteroPersonalProgress } from "./react-zotero-sync/personalProgress";
 import { useZoteroCompactMode } from "./react-zotero-sync/compactMode";
 import { useZoteroReaderMode } from "./react-zotero-sync/readerMode";
+import { useWordCountIndexVersion } from "./react-zotero-sync/wordCounts";
+import { useZoteroSyllabusHistory } from "./react-zotero-sync/syllabusHistory";
 import { FEATURE_FLAG } from "./featureFlags";
 import {
   getItemReadStatusName,
@@ -38,8 +42,13 @@ import { useDebouncedEffect } from "../utils/react/useDebouncedEffect";
 import { useElementSize } from "../utils/react/useElementSize";
 import slugify from "slugify";
 import { SettingsPage } from "./SettingsPage";
+import { CSVImportPage } from "./CSVImportPage";
+import { DuplicateSyllabusPage } from "./DuplicateSyllabusPage";
+import { SyllabusImportPage } from "./SyllabusImportPage";
+import { parseCSV } from "../utils/csv";
 import { formatDate } from "date-fns";
 import { getReadingTimeSync, formatReadingTime } from "../utils/readingTime";
+import { formatPageRanges } from "../utils/pageRanges";
 import {
   Printer,
   Settings,
@@ -56,6 +65,16 @@ import {
   Trash2,
   Menu,
   ListTodo,
+  CalendarDays,
+  FileText,
+  FileCode,
+  Link2,
+  FileSpreadsheet,
+  Sheet,
+  Copy,
+  Ellipsis,
+  Undo2,
+  Redo2,
 } from "lucide-preact";
 import { TableOfContents } from "./TableOfContents";
 import { saveToFile } from "../utils/file";
@@ -121,6 +140,22 @@ export function SyllabusPage({ collectionId }: SyllabusPageProps) {
   // Settings view state
   const [showSettings, setShowSettings] = useState(false);
 
+  // Duplicate syllabus view state
+  const [showDuplicate, setShowDuplicate] = useState(false);
+
+  // CSV reading list awaiting column mapping
+  const [csvImport, setCsvImport] = useState<{
+    fileName: string;
+    rows: string[][];
+  } | null>(null);
+
+  // Syllabus file awaiting review of its changes
+  const [syllabusImport, setSyllabusImport] = useState<{
+    fileName: string;
+    fileContents: string;
+    preview: SyllabusImportPreview;
+  } | null>(null);
+
   // Table of Contents state
   const [showTOC, setShowTOC] = useState(false);
 
@@ -260,38 +295,46 @@ export function SyllabusPage({ collectionId }: SyllabusPageProps) {
       identifiers: string[],
       processor: (assignmentId: string, item: Zotero.Item) => Promise<void>,
       itemProcessor: (item: Zotero.Item) => Promise<void>,
+      historyLabel: string,
     ): Promise<Set<Zotero.Item>> => {
       const itemsToSave = new Set<Zotero.Item>();
 
-      for (const identifierStr of identifiers) {
-        if (identifierStr.startsWith("assignment:")) {
-          const assignmentId = identifierStr.replace("assignment:", "");
-          for (const syllabusItem of syllabusItems) {
-            const matchingAssignment = syllabusItem.assignments.find(
-              (a) => a.id === assignmentId,
-            );
-            if (matchingAssignment) {
-              // Assignment was updated
-              await processor(assignmentId, syllabusItem.zoteroItem);
-              itemsToSave.add(syllabusItem.zoteroItem);
-              break;
-            }
-          }
-        } else if (identifierStr.startsWith("item:")) {
-          const itemId = parseInt(identifierStr.replace("item:", ""), 10);
-          if (!isNaN(itemId)) {
-            const item = getCachedItem(itemId);
-            if (item && item.isRegularItem()) {
-              await itemProcessor(item);
-              itemsToSave.add(item);
+      // All of the selected readings change in one undoable step
+      await SyllabusManager.withHistoryGroup(
+        collectionId,
+        historyLabel,
+        async () => {
+          for (const identifierStr of identifiers) {
+            if (identifierStr.startsWith("assignment:")) {
+              const assignmentId = identifierStr.replace("assignment:", "");
+              for (const syllabusItem of syllabusItems) {
+                const matchingAssignment = syllabusItem.assignments.find(
+                  (a) => a.id === assignmentId,
+                );
+                if (matchingAssignment) {
+                  // Assignment was updated
+                  await processor(assignmentId, syllabusItem.zoteroItem);
+                  itemsToSave.add(syllabusItem.zoteroItem);
+                  break;
+                }
+              }
+            } else if (identifierStr.startsWith("item:")) {
+              const itemId = parseInt(identifierStr.replace("item:", ""), 10);
+              if (!isNaN(itemId)) {
+                const item = getCachedItem(itemId);
+                if (item && item.isRegularItem()) {
+                  await itemProcessor(item);
+                  itemsToSave.add(item);
+                }
+              }
             }
           }
-        }
-      }
+        },
+      );
 
       return itemsToSave;
     },
-    [syllabusItems],
+    [syllabusItems, collectionId],
   );
 
   // Helper: Save all items
@@ -337,6 +380,7 @@ export function SyllabusPage({ collectionId }: SyllabusPageProps) {
             "page",
           );
         },
+        "Change priority",
       );
 
       await saveItems(itemsToSave, "priority change");
@@ -367,6 +411,7 @@ export function SyllabusPage({ collectionId }: SyllabusPageProps) {
             "page",
           );
         },
+        "Remove readings",
       );
 
       await saveItems(itemsToSave, "deleting");
@@ -394,7 +439,9 @@ export function SyllabusPage({ collectionId }: SyllabusPageProps) {
                 classNumber: matchingAssignment.classNumber,
                 priority: matchingAssignment.priority,
                 classInstruction: matchingAssignment.classInstruction,
+                pageRanges: matchingAssignment.pageRanges,
                 status: matchingAssignment.status,
+                statusChangedAt: matchingAssignment.statusChangedAt,
               };
               await SyllabusManager.addClassAssignment(
                 item,
@@ -423,7 +470,9 @@ export function SyllabusPage({ collectionId }: SyllabusPageProps) {
               classNumber: firstAssignment.classNumber,
               priority: firstAssignment.priority,
               classInstruction: firstAssignment.classInstruction,
+              pageRanges: firstAssignment.pageRanges,
               status: firstAssignment.status,
+              statusChangedAt: firstAssignment.statusChangedAt,
             };
             await SyllabusManager.addClassAssignment(
               item,
@@ -442,6 +491,7 @@ export function SyllabusPage({ collectionId }: SyllabusPageProps) {
             );
           }
         },
+        "Duplicate readings",
       );
 
       await saveItems(itemsToSave, "duplicating");
@@ -495,6 +545,7 @@ export function SyllabusPage({ collectionId }: SyllabusPageProps) {
 
   // Ref for hidden file input for import
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const csvInputRef = useRef<HTMLInputElement>(null);
 
   const toggleCompactMode = () => {
     const nextMode = !compactMode;
@@ -508,6 +559,57 @@ export function SyllabusPage({ collectionId }: SyllabusPageProps) {
     setReaderMode(nextMode);
   };
 
+  const { undoLabel, redoLabel } = useZoteroSyllabusHistory(collectionId);
+
+  const handleUndo = useCallback(async () => {
+    try {
+      await SyllabusManager.undo(collectionId, "page");
+    } catch (err) {
+      ztoolkit.log("Error undoing:", err);
+    }
+  }, [collectionId]);
+
+  const handleRedo = useCallback(async () => {
+    try {
+      await SyllabusManager.redo(collectionId, "page");
+    } catch (err) {
+      ztoolkit.log("Error redoing:", err);
+    }
+  }, [collectionId]);
+
+  // Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      const isUndo = key === "z" && !e.shiftKey;
+      const isRedo = (key === "z" && e.shiftKey) || (key === "y" && e.ctrlKey);
+      if (!isUndo && !isRedo) return;
+      // Only while the syllabus page is showing
+      const page = syllabusPageRef.current;
+      if (!page || !page.isConnected || !page.getClientRects().length) return;
+      // Leave text fields their own undo
+      const target = e.target as HTMLElement | null;
+      if (
+        target?.closest?.("input, textarea, select, [contenteditable='true']")
+      ) {
+        return;
+      }
+      e.preventDefault();
+      e.stopPropagation();
+      if (isUndo) {
+        handleUndo();
+      } else {
+        handleRedo();
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [handleUndo, handleRedo]);
+
   // Set up global drag event listeners
   useEffect(() => {
     const handleGlobalDragStart = (e: DragEvent) => {
@@ -569,7 +671,7 @@ export function SyllabusPage({ collectionId }: SyllabusPageProps) {
     itemOrderVersion,
   );
 
-  const handleDrop = async (
+  const applyDrop = async (
     e: JSX.TargetedDragEvent<HTMLElement>,
     targetClassNumber: number | null,
     targetItemId?: number,
@@ -1141,6 +1243,17 @@ export function SyllabusPage({ collectionId }: SyllabusPageProps) {
     }
   };
 
+  // A drop (possibly of several readings) is a single undoable step
+  const handleDrop = (
+    e: JSX.TargetedDragEvent<HTMLElement>,
+    targetClassNumber: number | null,
+    targetItemId?: number,
+    insertBefore?: boolean,
+  ) =>
+    SyllabusManager.withHistoryGroup(collectionId, "Move readings", () =>
+      applyDrop(e, targetClassNumber, targetItemId, insertBefore),
+    );
+
   const handleDragOver = (e: JSX.TargetedDragEvent<HTMLElement>) => {
     e.preventDefault();
     e.stopPropagation();
@@ -1197,14 +1310,92 @@ export function SyllabusPage({ collectionId }: SyllabusPageProps) {
     }
   };
 
+  const handleExportMarkdown = async () => {
+    try {
+      const markdownContent = await SyllabusManager.prepareMarkdownExport(
+        collectionId,
+        title || "",
+      );
+      const titleSlug = slugify(title || "syllabus", {
+        lower: true,
+        strict: true,
+      });
+      await saveToFile(`${titleSlug}.md`, markdownContent, "Save Markdown");
+    } catch (err) {
+      ztoolkit.log("Error exporting syllabus as Markdown:", err);
+    }
+  };
+
+  const handleExportHTML = async (includeLinks: boolean) => {
+    try {
+      const htmlContent = await SyllabusManager.prepareHTMLExport(
+        collectionId,
+        title || "",
+        { includeLinks },
+      );
+      const titleSlug = slugify(title || "syllabus", {
+        lower: true,
+        strict: true,
+      });
+      await saveToFile(`${titleSlug}.html`, htmlContent, "Save Web Page");
+    } catch (err) {
+      ztoolkit.log("Error exporting syllabus as HTML:", err);
+    }
+  };
+
+  const handleExportCSV = async () => {
+    try {
+      const csvContent = SyllabusManager.prepareCSVExport(collectionId);
+      const titleSlug = slugify(title || "syllabus", {
+        lower: true,
+        strict: true,
+      });
+      await saveToFile(`${titleSlug}.csv`, csvContent, "Save Spreadsheet");
+    } catch (err) {
+      ztoolkit.log("Error exporting syllabus as CSV:", err);
+    }
+  };
+
+  const hasReadingDates = useMemo(
+    () =>
+      Object.values(syllabusMetadata.classes || {}).some(
+        (classMetadata) => !!classMetadata.readingDate,
+      ),
+    [syllabusMetadata],
+  );
+
+  const handleExportCalendar = async () => {
+    try {
+      const icsContent = SyllabusManager.prepareCalendarExport(
+        [collectionId],
+        title || "Syllabus",
+      );
+      const titleSlug = slugify(title || "syllabus", {
+        lower: true,
+        strict: true,
+      });
+      await saveToFile(`${titleSlug}.ics`, icsContent, "Save Calendar");
+    } catch (err) {
+      ztoolkit.log("Error exporting calendar:", err);
+    }
+  };
+
   const handleImport = () => {
     // Trigger the hidden file input
     fileInputRef.current?.click();
   };
 
+  const handleImportCSV = () => {
+    csvInputRef.current?.click();
+  };
+
   // Process a file for import (reusable for both file input and drag-drop)
   const processFile = async (file: File) => {
     try {
+      if (isLocked) {
+        throw new Error("This syllabus is locked. Unlock it to import.");
+      }
+
       // Read file contents using FileReader
       const fileContents = await new Promise<string>((resolve, reject) => {
         const reader = new FileReader();
@@ -1222,26 +1413,23 @@ export function SyllabusPage({ collectionId }: SyllabusPageProps) {
         reader.readAsText(file);
       });
 
-      // Import syllabus metadata using SyllabusManager
-      // This handles JSON parsing, validation, collection title update, merging, and saving
-      await SyllabusManager.importSyllabusMetadata(
+      // CSV reading lists need their columns mapped before importing
+      if (file.name.toLowerCase().endsWith(".csv")) {
+        const rows = parseCSV(fileContents);
+        if (rows.length < 2) {
+          throw new Error("The CSV file has no rows to import");
+        }
+        setCsvImport({ fileName: file.name, rows });
+        return;
+      }
+
+      // Work out what the import would change, and let the user choose
+      // how to apply it before anything is modified
+      const preview = await SyllabusManager.previewSyllabusImport(
         collectionId,
         fileContents,
-        "page",
       );
-
-      ztoolkit.log("Successfully imported and merged syllabus metadata");
-
-      // Show success message
-      new ztoolkit.ProgressWindow("Import Success", {
-        closeOnClick: true,
-        closeTime: 3000,
-      })
-        .createLine({
-          text: "Successfully imported and merged syllabus metadata",
-          type: "success",
-        })
-        .show();
+      setSyllabusImport({ fileName: file.name, fileContents, preview });
     } catch (error) {
       new ztoolkit.ProgressWindow("Import Error", {
         closeOnClick: true,
@@ -1334,8 +1522,10 @@ export function SyllabusPage({ collectionId }: SyllabusPageProps) {
       setIsDraggingFile(false);
 
       const files = Array.from(e.dataTransfer?.files || []);
-      const syllabusFile = files.find((file) =>
-        file.name.endsWith(".syllabus"),
+      const syllabusFile = files.find(
+        (file) =>
+          file.name.endsWith(".syllabus") ||
+          file.name.toLowerCase().endsWith(".csv"),
       );
 
       if (syllabusFile) {
@@ -1347,7 +1537,7 @@ export function SyllabusPage({ collectionId }: SyllabusPageProps) {
           closeTime: 5000,
         })
           .createLine({
-            text: "Please drop a .syllabus file",
+            text: "Please drop a .syllabus or .csv file",
             type: "fail",
           })
           .show();
@@ -1523,6 +1713,39 @@ export function SyllabusPage({ collectionId }: SyllabusPageProps) {
     }
   };
 
+  if (syllabusImport) {
+    return (
+      <SyllabusImportPage
+        collectionId={collectionId}
+        fileName={syllabusImport.fileName}
+        fileContents={syllabusImport.fileContents}
+        preview={syllabusImport.preview}
+        onBack={() => setSyllabusImport(null)}
+      />
+    );
+  }
+
+  if (csvImport) {
+    return (
+      <CSVImportPage
+        collectionId={collectionId}
+        fileName={csvImport.fileName}
+        rows={csvImport.rows}
+        onBack={() => setCsvImport(null)}
+      />
+    );
+  }
+
+  if (showDuplicate) {
+    return (
+      <DuplicateSyllabusPage
+        collectionId={collectionId}
+        title={title || ""}
+        onBack={() => setShowDuplicate(false)}
+      />
+    );
+  }
+
   // If settings view is active, show settings page
   if (showSettings) {
     return (
@@ -1543,6 +1766,13 @@ export function SyllabusPage({ collectionId }: SyllabusPageProps) {
         style={{ display: "none" }}
         onChange={handleFileInputChange}
       />
+      <input
+        ref={csvInputRef}
+        type="file"
+        accept=".csv,text/csv"
+        style={{ display: "none" }}
+        onChange={handleFileInputChange}
+      />
       <div
         ref={syllabusPageRef}
         className={twMerge(
@@ -1562,7 +1792,7 @@ export function SyllabusPage({ collectionId }: SyllabusPageProps) {
               <div className="flex flex-col items-center gap-4">
                 <Upload size={48} className="text-accent-blue" />
                 <div className="text-xl font-semibold text-accent-blue">
-                  Drop .syllabus file to import
+                  Drop .syllabus or .csv file to import
                 </div>
               </div>
             </div>
@@ -1628,6 +1858,40 @@ export function SyllabusPage({ collectionId }: SyllabusPageProps) {
                 <div className="inline-flex items-center gap-2.5 shrink grow-0">
                   {!isLocked && (
                     <>
+                      <div
+                        className={twMerge(
+                          "grow-0 shrink-0 flex items-center in-[.print]:hidden",
+                          undoLabel ? "cursor-pointer" : "opacity-40",
+                        )}
+                        title={
+                          undoLabel ? `Undo: ${undoLabel}` : "Nothing to undo"
+                        }
+                        aria-label={undoLabel ? `Undo: ${undoLabel}` : "Undo"}
+                        aria-disabled={!undoLabel}
+                        onClick={undoLabel ? handleUndo : undefined}
+                      >
+                        <Undo2
+                          size={20}
+                          className="text-secondary hover:text-primary hover:bg-quinary rounded p-1"
+                        />
+                      </div>
+                      <div
+                        className={twMerge(
+                          "grow-0 shrink-0 flex items-center in-[.print]:hidden",
+                          redoLabel ? "cursor-pointer" : "opacity-40",
+                        )}
+                        title={
+                          redoLabel ? `Redo: ${redoLabel}` : "Nothing to redo"
+                        }
+                        aria-label={redoLabel ? `Redo: ${redoLabel}` : "Redo"}
+                        aria-disabled={!redoLabel}
+                        onClick={redoLabel ? handleRedo : undefined}
+                      >
+                        <Redo2
+                          size={20}
+                          className="text-secondary hover:text-primary hover:bg-quinary rounded p-1"
+                        />
+                      </div>
                       <div
                         className="grow-0 shrink-0 flex items-center in-[.print]:hidden cursor-pointer"
                         title={
@@ -1702,6 +1966,17 @@ export function SyllabusPage({ collectionId }: SyllabusPageProps) {
                           className="text-secondary hover:text-primary hover:bg-quinary rounded p-1"
                         />
                       </div>
+                      <div
+                        className="grow-0 shrink-0 flex items-center in-[.print]:hidden cursor-pointer"
+                        title="Import CSV reading list"
+                        aria-label="Import CSV reading list"
+                        onClick={handleImportCSV}
+                      >
+                        <FileSpreadsheet
+                          size={20}
+                          className="text-secondary hover:text-primary hover:bg-quinary rounded p-1"
+                        />
+                      </div>
                       <div
                         className="grow-0 shrink-0 flex items-center in-[.print]:hidden cursor-pointer"
                         title="Edit syllabus settings"
@@ -1733,6 +2008,74 @@ export function SyllabusPage({ collectionId }: SyllabusPageProps) {
                       />
                     )}
                   </div>
+                  <div
+                    className="grow-0 shrink-0 flex items-center in-[.print]:hidden cursor-pointer"
+                    title="Duplicate syllabus"
+                    aria-label="Duplicate syllabus"
+                    onClick={() => setShowDuplicate(true)}
+                  >
+                    <Copy
+                      size={20}
+                      className="text-secondary hover:text-primary hover:bg-quinary rounded p-1"
+                    />
+                  </div>
+                  <div
+                    className="grow-0 shrink-0 flex items-center in-[.print]:hidden cursor-pointer"
+                    title="Export as Markdown"
+                    aria-label="Export as Markdown"
+                    onClick={handleExportMarkdown}
+                  >
+                    <FileText
+                      size={20}
+                      className="text-secondary hover:text-primary hover:bg-quinary rounded p-1"
+                    />
+                  </div>
+                  <div
+                    className="grow-0 shrink-0 flex items-center in-[.print]:hidden cursor-pointer"
+                    title="Export as web page"
+                    aria-label="Export as web page"
+                    onClick={() => handleExportHTML(false)}
+                  >
+                    <FileCode
+                      size={20}
+                      className="text-secondary hover:text-primary hover:bg-quinary rounded p-1"
+                    />
+                  </div>
+                  <div
+                    className="grow-0 shrink-0 flex items-center in-[.print]:hidden cursor-pointer"
+                    title="Export as web page with DOI and URL links"
+                    aria-label="Export as web page with DOI and URL links"
+                    onClick={() => handleExportHTML(true)}
+                  >
+                    <Link2
+                      size={20}
+                      className="text-secondary hover:text-primary hover:bg-quinary rounded p-1"
+                    />
+                  </div>
+                  <div
+                    className="grow-0 shrink-0 flex items-center in-[.print]:hidden cursor-pointer"
+                    title="Export as spreadsheet (CSV)"
+                    aria-label="Export as spreadsheet (CSV)"
+                    onClick={handleExportCSV}
+                  >
+                    <Sheet
+                      size={20}
+                      className="text-secondary hover:text-primary hover:bg-quinary rounded p-1"
+                    />
+                  </div>
+                  {hasReadingDates && (
+                    <div
+                      className="grow-0 shrink-0 flex items-center in-[.print]:hidden cursor-pointer"
+                      title="Export calendar"
+                      aria-label="Export calendar"
+                      onClick={handleExportCalendar}
+                    >
+                      <CalendarDays
+                        size={20}
+                        className="text-secondary hover:text-primary hover:bg-quinary rounded p-1"
+                      />
+                    </div>
+                  )}
                   <div
                     className="grow-0 shrink-0 flex items-center in-[.print]:hidden cursor-pointer"
                     title="Print the list in Syllabus view as a PDF"
@@ -2021,9 +2364,11 @@ function ClassGroupComponent({
   onDuplicate,
 }: ClassGroupComponentProps) {
   const selectedItemIds = useZoteroSelectedItemIds();
+  // Class status may come from the user's personal progress
+  useZoteroPersonalProgress();
 
   // Get nomenclature for this collection
-  const { singularCapitalized } =
+  const { singular, singularCapitalized } =
     SyllabusManager.getNomenclatureFormatted(collectionId);
 
   // Get class title, description, reading date, and status from metadata
@@ -2040,6 +2385,15 @@ function ClassGroupComponent({
     ? SyllabusManager.getClassStatus(collectionId, classNumber) === "done"
     : false;
 
+  // Total reading time for the class (improves as the word-count index fills)
+  useWordCountIndexVersion();
+  const totalReadingTime = itemAssignments.reduce(
+    (total, { item, assignment }) =>
+      total +
+      (getReadingTimeSync(item, { pageRanges: assignment.pageRanges }) || 0),
+    0,
+  );
+
   // Check if there's a manual order for this class
   const hasManualOrder =
     classNumber !== null &&
@@ -2056,6 +2410,44 @@ function ClassGroupComponent({
     }
   };
 
+  // Drag a class' header onto another class' header to move it there
+  const [isClassDropTarget, setIsClassDropTarget] = useState(false);
+
+  const handleClassDragStart = (e: JSX.TargetedDragEvent<HTMLElement>) => {
+    if (!e.dataTransfer || !classNumber) return;
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData(CLASS_DRAG_TYPE, String(classNumber));
+  };
+
+  const handleClassDragOver = (e: JSX.TargetedDragEvent<HTMLElement>) => {
+    if (isLocked || !e.dataTransfer?.types.includes(CLASS_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = "move";
+    setIsClassDropTarget(true);
+  };
+
+  const handleClassDrop = async (e: JSX.TargetedDragEvent<HTMLElement>) => {
+    setIsClassDropTarget(false);
+    const fromClassNumber = parseInt(
+      e.dataTransfer?.getData(CLASS_DRAG_TYPE) || "",
+      10,
+    );
+    if (isNaN(fromClassNumber) || !classNumber) return;
+    e.preventDefault();
+    e.stopPropagation();
+    try {
+      await SyllabusManager.moveClass(
+        collectionId,
+        fromClassNumber,
+        classNumber,
+        "page",
+      );
+    } catch (err) {
+      ztoolkit.log("Error moving class:", err);
+    }
+  };
+
   const handleResetSortOrder = async () => {
     if (classNumber !== null && classNumber !== undefined) {
       try {
@@ -2137,7 +2529,19 @@ function ClassGroupComponent({
                   className={twMerge(
                     "syllabus-class-header shrink-0 uppercase text-secondary font-semibold",
                     compactMode ? "text-sm" : "text-lg",
+                    !isLocked ? "cursor-grab" : "",
+                    isClassDropTarget ? "text-primary underline" : "",
                   )}
+                  draggable={!isLocked}
+                  title={
+                    !isLocked
+                      ? `Drag onto another ${singular} to move it there`
+                      : undefined
+                  }
+                  onDragStart={handleClassDragStart}
+                  onDragOver={handleClassDragOver}
+                  onDragLeave={() => setIsClassDropTarget(false)}
+                  onDrop={handleClassDrop}
                 >
                   {singularCapitalized} {classNumber}
                 </div>
@@ -2158,6 +2562,14 @@ function ClassGroupComponent({
                   />
                 </div>
                 <div className="ml-auto! shrink-0 inline-flex flex-row items-baseline gap-1 in-[.print]:hidden">
+                  {totalReadingTime > 0 && (
+                    <div
+                      className="text-secondary whitespace-nowrap mr-2"
+                      title="Estimated total reading time"
+                    >
+                      {formatReadingTime(totalReadingTime)}
+                    </div>
+                  )}
                   {FEATURE_FLAG.READING_SCHEDULE && !isLocked && (
                     <ReadingDateInput
                       initialValue={readingDate}
@@ -2193,6 +2605,18 @@ function ClassGroupComponent({
                           <div className="text-lg text-center">⇅</div>
                         </button>
                       )}
+                      <ClassStructureMenu
+                        collectionId={collectionId}
+                        classNumber={classNumber}
+                        selectedAssignmentIds={selectedForDrag.assignments
+                          .map(({ assignmentId }) => assignmentId)
+                          .filter((assignmentId) =>
+                            itemAssignments.some(
+                              ({ assignment }) =>
+                                assignment.id === assignmentId,
+                            ),
+                          )}
+                      />
                       <button
                         className="bg-transparent border-none rounded transition-all duration-200 cursor-pointer hover:bg-red-500/15 text-secondary hover:text-red-400 inline-flex flex-row items-center justify-center w-8 h-8"
                         onClick={handleDeleteClass}
@@ -2299,6 +2723,187 @@ function ClassGroupComponent({
   );
 }
 
+const CLASS_DRAG_TYPE = "application/x-syllabus-class";
+
+function ClassStructureMenu({
+  collectionId,
+  classNumber,
+  selectedAssignmentIds,
+}: {
+  collectionId: number;
+  classNumber: number;
+  selectedAssignmentIds: string[];
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const { singular, plural } =
+    SyllabusManager.getNomenclatureFormatted(collectionId);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  const lastClassNumber = isOpen
+    ? Math.max(...SyllabusManager.getFullClassNumberRange(collectionId), 1)
+    : classNumber;
+
+  const run = async (action: () => Promise<void>, confirmMessage?: string) => {
+    setIsOpen(false);
+    if (confirmMessage && !Zotero.getMainWindow().confirm(confirmMessage)) {
+      return;
+    }
+    try {
+      await action();
+    } catch (err) {
+      ztoolkit.log("Error changing class structure:", err);
+      Zotero.getMainWindow().alert(
+        err instanceof Error ? err.message : String(err),
+      );
+    }
+  };
+
+  const actions: Array<{
+    label: string;
+    disabled?: boolean;
+    onClick: () => void;
+  }> = [
+    {
+      label: `Insert ${singular} before`,
+      onClick: () =>
+        run(() =>
+          SyllabusManager.insertClass(collectionId, classNumber, "page"),
+        ),
+    },
+    {
+      label: `Insert ${singular} after`,
+      onClick: () =>
+        run(() =>
+          SyllabusManager.insertClass(collectionId, classNumber + 1, "page"),
+        ),
+    },
+    {
+      label: "Move up",
+      disabled: classNumber <= 1,
+      onClick: () =>
+        run(() =>
+          SyllabusManager.swapClasses(
+            collectionId,
+            classNumber,
+            classNumber - 1,
+            "page",
+          ),
+        ),
+    },
+    {
+      label: "Move down",
+      disabled: classNumber >= lastClassNumber,
+      onClick: () =>
+        run(() =>
+          SyllabusManager.swapClasses(
+            collectionId,
+            classNumber,
+            classNumber + 1,
+            "page",
+          ),
+        ),
+    },
+    {
+      label: `Merge into previous ${singular}`,
+      disabled: classNumber <= 1,
+      onClick: () =>
+        run(
+          () =>
+            SyllabusManager.mergeClasses(
+              collectionId,
+              classNumber,
+              classNumber - 1,
+              "page",
+            ),
+          `Move all readings of ${singular} ${classNumber} into ${singular} ${classNumber - 1} and renumber the rest?`,
+        ),
+    },
+    {
+      label: `Merge next ${singular} into this one`,
+      disabled: classNumber >= lastClassNumber,
+      onClick: () =>
+        run(
+          () =>
+            SyllabusManager.mergeClasses(
+              collectionId,
+              classNumber + 1,
+              classNumber,
+              "page",
+            ),
+          `Move all readings of ${singular} ${classNumber + 1} into ${singular} ${classNumber} and renumber the rest?`,
+        ),
+    },
+    {
+      label:
+        selectedAssignmentIds.length > 0
+          ? `Split: move ${selectedAssignmentIds.length} selected ${selectedAssignmentIds.length === 1 ? "reading" : "readings"} to a new ${singular}`
+          : `Split (select readings to move to a new ${singular} first)`,
+      disabled: selectedAssignmentIds.length === 0,
+      onClick: () =>
+        run(() =>
+          SyllabusManager.splitClass(
+            collectionId,
+            classNumber,
+            selectedAssignmentIds,
+            "page",
+          ),
+        ),
+    },
+    {
+      label: `Delete ${singular} and renumber`,
+      onClick: () =>
+        run(
+          () =>
+            SyllabusManager.deleteClassAndCloseGap(
+              collectionId,
+              classNumber,
+              "page",
+            ),
+          `Delete ${singular} ${classNumber}? Its readings stay in the syllabus, unassigned, and later ${plural} move up by one.`,
+        ),
+    },
+  ];
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        className="bg-transparent border-none rounded transition-all duration-200 cursor-pointer hover:bg-quinary text-secondary hover:text-primary inline-flex flex-row items-center justify-center w-8 h-8"
+        onClick={() => setIsOpen(!isOpen)}
+        title={`Rearrange ${plural}`}
+        aria-label={`Rearrange ${plural}`}
+        aria-expanded={isOpen}
+      >
+        <Ellipsis size={16} />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 bg-background border border-quinary rounded-lg shadow-lg z-50 min-w-[260px] py-1">
+          {actions.map((action) => (
+            <button
+              key={action.label}
+              className="block w-full text-left px-3 py-1 bg-transparent border-none rounded-none hover:bg-quinary disabled:opacity-50 disabled:hover:bg-transparent"
+              disabled={action.disabled}
+              onClick={action.onClick}
+            >
+              {action.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function ReadingDateInput({
   initialValue,
   defaultDate,
@@ -2626,7 +3231,13 @@ export function SyllabusItemCard({
     item.getField("publicationTitle") || item.getField("bookTitle") || "";
   const url = item.getField("url") || "";
   const [syllabusMetadata] = useZoteroSyllabusMetadata(collectionId);
-  const readingTime = getReadingTimeSync(item, { roundUp: true });
+  const pages = formatPageRanges(assignment?.pageRanges);
+  // Reading times improve as the background index counts PDFs
+  useWordCountIndexVersion();
+  const readingTime = getReadingTimeSync(item, {
+    roundUp: true,
+    pageRanges: assignment?.pageRanges,
+  });
 
   // Get priority and class instruction from the assignment (if found)
   // When assignmentId is provided, these MUST come from that specific assignment
@@ -2756,6 +3367,7 @@ export function SyllabusItemCard({
     date,
     slim ? itemTypeLabel : undefined,
     publicationName ? `in ${publicationName}` : undefined,
+    pages || undefined,
     readingTime ? formatReadingTime(readingTime) : undefined,
   ].filter(Boolean);
 
@@ -2940,6 +3552,14 @@ export function SyllabusItemCard({
   ) || { color: "#AAA" };
 
   const assignmentStatus = assignment?.status || null;
+  const isStatusComplete = SyllabusManager.isStatusComplete(
+    collectionId,
+    assignmentStatus,
+  );
+  const personalNotes = assignment?.id
+    ? SyllabusManager.getPersonalAssignmentState(collectionId, assignment.id)
+        ?.notes
+    : null;
 
   const colors = priority
     ? {
@@ -2973,14 +3593,10 @@ export function SyllabusItemCard({
     onDrop(e, insertBefore);
   };
 
-  const handleAssignmentStatusToggle = async (
-    e: JSX.TargetedEvent<HTMLInputElement>,
-  ) => {
-    e.stopPropagation();
+  const handleAssignmentStatusChange = async (newStatus: string | null) => {
     if (!assignment?.id) return;
 
     try {
-      const newStatus = assignmentStatus === "done" ? null : "done";
       await SyllabusManager.updateClassAssignment(
         item,
         collectionId,
@@ -2990,10 +3606,19 @@ export function SyllabusItemCard({
       );
       await item.saveTx();
     } catch (err) {
-      ztoolkit.log("Error toggling assignment status:", err);
+      ztoolkit.log("Error changing assignment status:", err);
     }
   };
 
+  const handleAssignmentStatusToggle = async (
+    e: JSX.TargetedEvent<HTMLInputElement>,
+  ) => {
+    e.stopPropagation();
+    await handleAssignmentStatusChange(
+      isStatusComplete ? null : SyllabusManager.getDoneStatusId(collectionId),
+    );
+  };
+
   return (
     <div
       style={colors}
@@ -3038,18 +3663,14 @@ export function SyllabusItemCard({
       {readerMode && (
         <input
           type="checkbox"
-          checked={assignmentStatus === "done"}
+          checked={isStatusComplete}
           onChange={handleAssignmentStatusToggle}
           className={twMerge(
             "absolute right-full mr-1 w-4 h-4 cursor-pointer shrink-0 self-center in-[.print]:hidden",
             Zotero.version.startsWith("8.") ? "md:mr-2!" : "mr-2!",
           )}
-          title={
-            assignmentStatus === "done" ? "Mark as not done" : "Mark as done"
-          }
-          aria-label={
-            assignmentStatus === "done" ? "Mark as not done" : "Mark as done"
-          }
+          title={isStatusComplete ? "Mark as not done" : "Mark as done"}
+          aria-label={isStatusComplete ? "Mark as not done" : "Mark as done"}
           onClick={(e) => e.stopPropagation()}
         />
       )}
@@ -3091,9 +3712,7 @@ export function SyllabusItemCard({
               <div
                 className={twMerge(
                   "text-base font-medium grow wrap-break-word",
-                  readerMode && assignmentStatus === "done"
-                    ? "line-through"
-                    : "",
+                  readerMode && isStatusComplete ? "line-through" : "",
                 )}
               >
                 {title}
@@ -3106,6 +3725,14 @@ export function SyllabusItemCard({
                   collectionId={collectionId}
                 />
               )}
+              {readerMode && assignment?.id && (
+                <ReadingStatusSelect
+                  collectionId={collectionId}
+                  assignment={assignment}
+                  onChange={handleAssignmentStatusChange}
+                  className="shrink-0 grow-0"
+                />
+              )}
             </div>
             <div className="syllabus-item-metadata text-secondary flex flex-row gap-4">
               <span className="flex flex-row gap-1 flex-wrap character-separator [--character-separator:'•']">
@@ -3115,6 +3742,7 @@ export function SyllabusItemCard({
                   <span className="text-secondary">{itemTypeLabel}</span>
                 )}
                 {publicationName && <span>in {publicationName}</span>}
+                {pages && <span>{pages}</span>}
                 {readingTime && <span>{formatReadingTime(readingTime)}</span>}
               </span>
             </div>
@@ -3123,6 +3751,14 @@ export function SyllabusItemCard({
                 {classInstruction}
               </div>
             )}
+            {readerMode && personalNotes && (
+              <div
+                className="syllabus-item-personal-notes text-secondary italic in-[.print]:hidden"
+                title="Your notes (only visible to you)"
+              >
+                {personalNotes}
+              </div>
+            )}
           </>
         ) : (
           <>
@@ -3146,14 +3782,20 @@ export function SyllabusItemCard({
                   <ReadStatusIcon readStatusName={readStatusName} />
                 </div>
               )}
+              {readerMode && assignment?.id && (
+                <ReadingStatusSelect
+                  collectionId={collectionId}
+                  assignment={assignment}
+                  onChange={handleAssignmentStatusChange}
+                  className="grow-0 shrink-0 ml-auto"
+                />
+              )}
             </div>
             <div className="syllabus-item-title-row">
               <div
                 className={twMerge(
                   !slim ? "text-xl font-medium" : "text-lg font-medium",
-                  readerMode && assignmentStatus === "done"
-                    ? "line-through"
-                    : "",
+                  readerMode && isStatusComplete ? "line-through" : "",
                 )}
               >
                 {title}
@@ -3174,6 +3816,14 @@ export function SyllabusItemCard({
                 {classInstruction}
               </div>
             )}
+            {readerMode && personalNotes && (
+              <div
+                className="syllabus-item-personal-notes text-secondary italic in-[.print]:hidden"
+                title="Your notes (only visible to you)"
+              >
+                {personalNotes}
+              </div>
+            )}
           </>
         )}
       </div>
@@ -3483,6 +4133,62 @@ export function SyllabusItemCard({
   );
 }
 
+function ReadingStatusSelect({
+  collectionId,
+  assignment,
+  onChange,
+  className,
+}: {
+  collectionId: number;
+  assignment: ItemSyllabusAssignment;
+  onChange: (status: string | null) => void;
+  className?: string;
+}) {
+  const statuses =
+    SyllabusManager.getReadingStatusesForCollection(collectionId);
+  const currentStatus = SyllabusManager.getReadingStatus(
+    collectionId,
+    assignment.status,
+  );
+  const changedAt = assignment.statusChangedAt
+    ? formatDate(new Date(assignment.statusChangedAt), "PPp")
+    : null;
+
+  return (
+    <select
+      value={currentStatus?.id || ""}
+      onChange={(e) => onChange(e.currentTarget.value || null)}
+      onClick={(e) => e.stopPropagation()}
+      onDblClick={(e) => e.stopPropagation()}
+      className={twMerge(
+        "text-sm rounded-md px-1 py-0.25 border border-quinary bg-background in-[.print]:hidden",
+        className,
+      )}
+      style={
+        currentStatus?.color
+          ? {
+              color: currentStatus.color,
+              borderColor: currentStatus.color,
+            }
+          : undefined
+      }
+      title={
+        changedAt
+          ? `${currentStatus?.name} since ${changedAt}`
+          : "Reading status"
+      }
+      aria-label="Reading status"
+    >
+      <option value="">No status</option>
+      {statuses.map((status) => (
+        <option key={status.id} value={status.id}>
+          {status.name}
+        </option>
+      ))}
+    </select>
+  );
+}
+
 function PriorityIcon({
   id,
   colors = true,
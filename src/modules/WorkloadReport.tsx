@@ -0,0 +1,362 @@
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+import { h, Fragment } from "preact";
+import { useMemo, useState } from "preact/hooks";
+import { twMerge } from "tailwind-merge";
+import { formatDate } from "date-fns";
+import { ChevronDown, ChevronRight } from "lucide-preact";
+import { SyllabusManager } from "./syllabus";
+import type { ClassReading } from "./ReadingSchedule";
+import { useWordCountIndexVersion } from "./react-zotero-sync/wordCounts";
+import { getReadingTimeSync, formatReadingTime } from "../utils/readingTime";
+import { getPref, setPref } from "../utils/prefs";
+import { formatReadingDate } from "../utils/dates";
+
+interface PriorityMinutes {
+  id: string;
+  label: string;
+  color: string;
+  minutes: number;
+}
+
+interface ClassWorkload {
+  reading: ClassReading;
+  minutes: number;
+}
+
+interface DayWorkload {
+  date: string; // ISO date string
+  minutes: number;
+  byPriority: PriorityMinutes[];
+  classes: ClassWorkload[];
+}
+
+interface WeekWorkload {
+  weekStartKey: string;
+  minutes: number;
+  byPriority: PriorityMinutes[];
+  days: DayWorkload[];
+  unestimated: number; // Readings with no reading time estimate
+}
+
+/**
+ * Add a reading's minutes to a priority breakdown, keeping the breakdown
+ * ordered like the priorities of the syllabus it came from
+ */
+function addPriorityMinutes(
+  byPriority: PriorityMinutes[],
+  collectionId: number,
+  priority: string | undefined,
+  minutes: number,
+) {
+  const id = priority || "";
+  const existing = byPriority.find((p) => p.id === id);
+  if (existing) {
+    existing.minutes += minutes;
+    return;
+  }
+  const { label, color } = SyllabusManager.getPriorityDisplay(
+    collectionId,
+    priority,
+  );
+  byPriority.push({
+    id,
+    label: label || "No priority",
+    color,
+    minutes,
+  });
+  byPriority.sort(
+    (a, b) =>
+      SyllabusManager.getPriorityOrderForCollection(collectionId, a.id) -
+      SyllabusManager.getPriorityOrderForCollection(collectionId, b.id),
+  );
+}
+
+/**
+ * Sum estimated reading minutes per day and week, split by priority
+ */
+export function computeWorkload(
+  readingsByWeek: Map<string, Map<string, ClassReading[]>>,
+  weekKeys: string[],
+): WeekWorkload[] {
+  return weekKeys.map((weekStartKey) => {
+    const week: WeekWorkload = {
+      weekStartKey,
+      minutes: 0,
+      byPriority: [],
+      days: [],
+      unestimated: 0,
+    };
+
+    const weekData = readingsByWeek.get(weekStartKey);
+    if (!weekData) return week;
+
+    for (const [date, classReadings] of weekData) {
+      const day: DayWorkload = {
+        date,
+        minutes: 0,
+        byPriority: [],
+        classes: [],
+      };
+
+      for (const reading of classReadings) {
+        let classMinutes = 0;
+        for (const { item, assignment } of reading.items) {
+          const minutes = getReadingTimeSync(item, {
+            pageRanges: assignment.pageRanges,
+          });
+          if (!minutes) {
+            week.unestimated++;
+            continue;
+          }
+          classMinutes += minutes;
+          addPriorityMinutes(
+            day.byPriority,
+            reading.collectionId,
+            assignment.priority ?? undefined,
+            minutes,
+          );
+          addPriorityMinutes(
+            week.byPriority,
+            reading.collectionId,
+            assignment.priority ?? undefined,
+            minutes,
+          );
+        }
+        day.minutes += classMinutes;
+        day.classes.push({ reading, minutes: classMinutes });
+      }
+
+      day.classes.sort((a, b) => b.minutes - a.minutes);
+      week.minutes += day.minutes;
+      week.days.push(day);
+    }
+
+    return week;
+  });
+}
+
+export function WorkloadReport({
+  readingsByWeek,
+  weekKeys,
+  onClassClick,
+}: {
+  readingsByWeek: Map<string, Map<string, ClassReading[]>>;
+  weekKeys: string[];
+  onClassClick: (collectionId: number) => void;
+}) {
+  // Totals improve as the background word-count index fills
+  const wordCountVersion = useWordCountIndexVersion();
+
+  const [threshold, setThreshold] = useState<number>(
+    () => getPref("workloadThreshold") || 0,
+  );
+  const [expandedWeek, setExpandedWeek] = useState<string | null>(null);
+
+  const weeks = useMemo(
+    () => computeWorkload(readingsByWeek, weekKeys),
+    [readingsByWeek, weekKeys, wordCountVersion],
+  );
+
+  // Scale the bars so the threshold and the heaviest week both fit
+  const scale = Math.max(threshold, ...weeks.map((week) => week.minutes), 1);
+
+  const handleThresholdChange = (value: string) => {
+    const hours = parseFloat(value);
+    const minutes = isNaN(hours) || hours < 0 ? 0 : Math.round(hours * 60);
+    setThreshold(minutes);
+    setPref("workloadThreshold", minutes);
+  };
+
+  return (
+    <div className="container-padded space-y-6">
+      <div className="flex flex-row items-center gap-2 text-secondary">
+        <label htmlFor="syllabus-workload-threshold">
+          Highlight weeks with more than
+        </label>
+        <input
+          id="syllabus-workload-threshold"
+          type="number"
+          min={0}
+          step={0.5}
+          value={threshold ? threshold / 60 : ""}
+          placeholder="—"
+          onChange={(e) => handleThresholdChange(e.currentTarget.value)}
+          className="w-20 px-2 py-1 border border-quinary rounded-md bg-background text-primary"
+        />
+        <span>hours of reading</span>
+      </div>
+
+      <div className="space-y-4">
+        {weeks.map((week) => {
+          const isOver = threshold > 0 && week.minutes > threshold;
+          const isExpanded = expandedWeek === week.weekStartKey;
+          const Chevron = isExpanded ? ChevronDown : ChevronRight;
+
+          return (
+            <div
+              key={week.weekStartKey}
+              className={twMerge(
+                "rounded-md border border-quinary p-3",
+                isOver ? "border-red-500" : "",
+              )}
+            >
+              <div
+                className="flex flex-row items-baseline gap-2 cursor-pointer"
+                onClick={() =>
+                  setExpandedWeek(isExpanded ? null : week.weekStartKey)
+                }
+                aria-expanded={isExpanded}
+              >
+                <Chevron size={16} className="self-center text-secondary" />
+                <span className="text-xl font-semibold">
+                  Week of {formatDate(new Date(week.weekStartKey), "do MMM")}
+                </span>
+                <span
+                  className={twMerge(
+                    "ml-auto text-xl",
+                    isOver ? "text-red-500 font-semibold" : "",
+                  )}
+                >
+                  {week.minutes > 0 ? formatReadingTime(week.minutes) : "—"}
+                </span>
+              </div>
+
+              <WorkloadBar
+                byPriority={week.byPriority}
+                scale={scale}
+                threshold={threshold}
+              />
+
+              <div className="flex flex-row flex-wrap gap-x-4 gap-y-1 text-sm text-secondary">
+                {week.byPriority.map((priority) => (
+                  <span
+                    key={priority.id}
+                    className="inline-flex items-center gap-1"
+                  >
+                    <span
+                      className="inline-block w-2 h-2 rounded-full"
+                      style={{ backgroundColor: priority.color }}
+                    />
+                    {priority.label}: {formatReadingTime(priority.minutes)}
+                  </span>
+                ))}
+                {isOver && (
+                  <span className="text-red-500">
+                    {formatReadingTime(week.minutes - threshold)} over your
+                    limit
+                  </span>
+                )}
+                {week.unestimated > 0 && (
+                  <span>
+                    {week.unestimated}{" "}
+                    {week.unestimated === 1 ? "reading" : "readings"} without an
+                    estimate
+                  </span>
+                )}
+              </div>
+
+              {isExpanded && (
+                <div className="mt-4 space-y-4">
+                  {week.days.map((day) => (
+                    <div key={day.date} className="space-y-1">
+                      <div className="flex flex-row items-baseline gap-2">
+                        <span className="font-semibold">
+                          {formatReadingDate(day.date)}
+                        </span>
+                        <span className="inline-flex gap-3 text-sm text-secondary">
+                          {day.byPriority.map((priority) => (
+                            <span
+                              key={priority.id}
+                              className="inline-flex items-center gap-1"
+                              title={priority.label}
+                            >
+                              <span
+                                className="inline-block w-2 h-2 rounded-full"
+                                style={{ backgroundColor: priority.color }}
+                              />
+                              {formatReadingTime(priority.minutes)}
+                            </span>
+                          ))}
+                        </span>
+                        <span className="ml-auto text-secondary">
+                          {day.minutes > 0
+                            ? formatReadingTime(day.minutes)
+                            : "—"}
+                        </span>
+                      </div>
+                      {day.classes.map(({ reading, minutes }) => {
+                        const { singularCapitalized } =
+                          SyllabusManager.getNomenclatureFormatted(
+                            reading.collectionId,
+                          );
+                        return (
+                          <div
+                            key={`${reading.collectionId}-${reading.classNumber}`}
+                            className="flex flex-row items-baseline gap-2 pl-4 cursor-pointer hover:bg-quinary active:bg-quarternary rounded-md"
+                            onClick={() => onClassClick(reading.collectionId)}
+                            title="Open syllabus"
+                          >
+                            <span>
+                              <span className="font-semibold">
+                                {reading.collectionName}
+                              </span>
+                              <span className="text-secondary">
+                                {" "}
+                                · {singularCapitalized} {reading.classNumber}
+                                {reading.classTitle
+                                  ? `: ${reading.classTitle}`
+                                  : ""}
+                              </span>
+                            </span>
+                            <span className="ml-auto text-secondary">
+                              {minutes > 0 ? formatReadingTime(minutes) : "—"}
+                            </span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function WorkloadBar({
+  byPriority,
+  scale,
+  threshold,
+}: {
+  byPriority: PriorityMinutes[];
+  scale: number;
+  threshold: number;
+}) {
+  return (
+    <div className="relative h-3 my-2 rounded-full bg-quinary overflow-hidden">
+      <div className="flex flex-row h-full">
+        {byPriority.map((priority) => (
+          <div
+            key={priority.id}
+            className="h-full"
+            style={{
+              width: `${(priority.minutes / scale) * 100}%`,
+              backgroundColor: priority.color,
+            }}
+            title={`${priority.label}: ${formatReadingTime(priority.minutes)}`}
+          />
+        ))}
+      </div>
+      {threshold > 0 && (
+        <div
+          className="absolute top-0 h-full border-l-2 border-red-500"
+          style={{ left: `${(threshold / scale) * 100}%` }}
+          title={`Limit: ${formatReadingTime(threshold)}`}
+        />
+      )}
+    </div>
+  );
+}
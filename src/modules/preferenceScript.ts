@@ -1,5 +1,8 @@
 import { config } from "../../package.json";
 import { getPref, PREFS_KEYS } from "../utils/prefs";
+import { formatDate } from "date-fns";
+import { SyllabusManager } from "./syllabus";
+import { saveToFile } from "../utils/file";
 
 export async function registerPrefsScripts(_window: Window) {
   // This function is called when the prefs window is opened
@@ -27,6 +30,14 @@ async function updatePrefsUI() {
 }
 
 function bindPrefEvents() {
+  const doc = addon.data.prefs?.window.document;
+  doc
+    ?.querySelector(`#zotero-prefpane-${config.addonRef}-exportBackup`)
+    ?.addEventListener("command", exportBackup);
+  doc
+    ?.querySelector(`#zotero-prefpane-${config.addonRef}-restoreBackup`)
+    ?.addEventListener("command", restoreBackup);
+
   for (const pref of PREFS_KEYS) {
     // addon.data
     //   .prefs!.window.document?.querySelector(
@@ -40,3 +51,60 @@ function bindPrefEvents() {
     //   });
   }
 }
+
+async function exportBackup() {
+  const window = addon.data.prefs?.window;
+  try {
+    const backup = await SyllabusManager.prepareBackup();
+    const dateStr = formatDate(new Date(), "yyyy-MM-dd");
+    await saveToFile(
+      `zotero-syllabus-backup-${dateStr}.json`,
+      JSON.stringify(backup, null, 2),
+      "Export All Syllabi",
+    );
+  } catch (err) {
+    ztoolkit.log("Error exporting backup:", err);
+    window?.alert(
+      `The backup couldn't be saved: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+}
+
+async function restoreBackup() {
+  const window = addon.data.prefs?.window;
+  const path = await new ztoolkit.FilePicker("Restore from Backup", "open", [
+    ["Zotero Syllabus backup (*.json)", "*.json"],
+  ]).open();
+  if (!path) return;
+  if (
+    !window?.confirm(
+      "Restore every syllabus in this backup? They replace the current versions of those syllabi (a snapshot of each is saved first).",
+    )
+  ) {
+    return;
+  }
+
+  try {
+    const contents = await Zotero.File.getContentsAsync(path);
+    const result = await SyllabusManager.restoreBackup(String(contents));
+    const lines = [
+      `Restored ${result.collections} ${result.collections === 1 ? "syllabus" : "syllabi"} and ${result.items} ${result.items === 1 ? "item" : "items"}.`,
+    ];
+    if (result.missingCollections > 0 || result.missingItems > 0) {
+      lines.push(
+        `${result.missingCollections} ${result.missingCollections === 1 ? "collection" : "collections"} and ${result.missingItems} ${result.missingItems === 1 ? "item" : "items"} weren't found in your library. Sync your library and restore again to include them.`,
+      );
+    }
+    if (result.failedItems > 0) {
+      lines.push(
+        `${result.failedItems} ${result.failedItems === 1 ? "item" : "items"} couldn't be updated, e.g. because a syllabus they belong to is locked here. Unlock it and restore again to include them.`,
+      );
+    }
+    window.alert(lines.join("\n\n"));
+  } catch (err) {
+    ztoolkit.log("Error restoring backup:", err);
+    window.alert(
+      `The backup couldn't be restored: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+}
@@ -8,6 +8,7 @@ import {
   ItemSyllabusAssignment,
 } from "../syllabus";
 import { getCachedItem } from "../../utils/cache";
+import { useZoteroPersonalProgress } from "./personalProgress";
 
 export type ItemID = {
   [field in _ZoteroTypes.Item.ItemField]: string | unknown;
@@ -33,6 +34,9 @@ export function useZoteroCollectionItems(
     store.getSnapshot,
   );
 
+  // Assignment statuses may come from the user's personal progress
+  const personalProgress = useZoteroPersonalProgress();
+
   const parsedItems = useMemo(() => {
     const snapshot = SuperJSON.parse(
       __itemsFromZotero,
@@ -56,7 +60,7 @@ export function useZoteroCollectionItems(
       zoteroItem: Zotero.Item;
       assignments: ItemSyllabusAssignment[];
     }[];
-  }, [__itemsFromZotero]);
+  }, [__itemsFromZotero, personalProgress]);
 
   return parsedItems;
 }
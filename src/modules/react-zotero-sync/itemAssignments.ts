@@ -111,10 +111,22 @@ export function createItemAssignmentsStore(
       true,
     );
 
+    // Reading status can also live in the user's personal progress
+    const progressPrefObserverId = Zotero.Prefs.registerObserver(
+      SyllabusManager.getPreferenceKey(
+        SyllabusManager.settingsKeys.PERSONAL_PROGRESS,
+      ),
+      () => {
+        onStoreChange();
+      },
+      true,
+    );
+
     // Return an unsubscribe fn
     return () => {
       Zotero.Notifier.unregisterObserver(notifierId);
       Zotero.Prefs.unregisterObserver(prefObserverId);
+      Zotero.Prefs.unregisterObserver(progressPrefObserverId);
     };
   }
 
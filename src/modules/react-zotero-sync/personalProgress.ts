@@ -0,0 +1,48 @@
+import { useMemo } from "preact/hooks";
+import { useSyncExternalStore } from "react-dom/src";
+import { SyllabusManager } from "../syllabus";
+import SuperJSON from "superjson";
+
+/**
+ * The current user's reading progress (status, notes, time spent),
+ * kept outside shared items
+ */
+export function useZoteroPersonalProgress() {
+  // Create the store once
+  const store = useMemo(() => createPersonalProgressStore(), []);
+
+  const __personalProgress = useSyncExternalStore(
+    store.subscribe,
+    store.getSnapshot,
+  );
+
+  return __personalProgress;
+}
+
+export function createPersonalProgressStore() {
+  function getSnapshot() {
+    return SuperJSON.stringify(SyllabusManager.getPersonalProgressData());
+  }
+
+  function subscribe(onStoreChange: () => void) {
+    const prefKey = SyllabusManager.getPreferenceKey(
+      SyllabusManager.settingsKeys.PERSONAL_PROGRESS,
+    );
+
+    const prefObserverId = Zotero.Prefs.registerObserver(
+      prefKey,
+      () => {
+        ztoolkit.log("Personal progress preference changed");
+        onStoreChange();
+      },
+      true,
+    );
+
+    // Return an unsubscribe fn
+    return () => {
+      Zotero.Prefs.unregisterObserver(prefObserverId);
+    };
+  }
+
+  return { getSnapshot, subscribe };
+}
@@ -0,0 +1,56 @@
+import { useCallback, useMemo } from "preact/hooks";
+import { useSyncExternalStore } from "react-dom/src";
+import { setPref, getPrefKey, getPrefValue } from "../../utils/prefs";
+
+const PREF_KEY = getPrefKey("readingScheduleView");
+
+export type ReadingScheduleView = "schedule" | "calendar" | "workload";
+
+const READING_SCHEDULE_VIEWS: ReadingScheduleView[] = [
+  "schedule",
+  "calendar",
+  "workload",
+];
+
+export function useZoteroReadingScheduleView() {
+  // Create the store once
+  const store = useMemo(() => createReadingScheduleViewStore(), []);
+
+  const __view = useSyncExternalStore(store.subscribe, store.getSnapshot);
+
+  const view: ReadingScheduleView = READING_SCHEDULE_VIEWS.includes(
+    __view as ReadingScheduleView,
+  )
+    ? (__view as ReadingScheduleView)
+    : "schedule";
+
+  const setView = useCallback((value: ReadingScheduleView) => {
+    setPref("readingScheduleView", value);
+  }, []);
+
+  return [view, setView] as const;
+}
+
+export function createReadingScheduleViewStore() {
+  function getSnapshot() {
+    return String(getPrefValue("readingScheduleView"));
+  }
+
+  function subscribe(onStoreChange: () => void) {
+    // Use Zotero's built-in preference observer
+    const observerID = Zotero.Prefs.registerObserver(
+      PREF_KEY,
+      () => {
+        onStoreChange();
+      },
+      true,
+    );
+
+    // Return an unsubscribe fn
+    return () => {
+      Zotero.Prefs.unregisterObserver(observerID);
+    };
+  }
+
+  return { getSnapshot, subscribe };
+}
@@ -0,0 +1,14 @@
+import { useSyncExternalStore } from "react-dom/src";
+import { SyllabusManager } from "../syllabus";
+
+/**
+ * Labels of the steps undo/redo would apply to a syllabus (null if none)
+ */
+export function useZoteroSyllabusHistory(collectionId: number) {
+  useSyncExternalStore(
+    (onStoreChange: () => void) =>
+      SyllabusManager.subscribeHistory(onStoreChange),
+    () => SyllabusManager.historyVersion,
+  );
+  return SyllabusManager.getHistoryState(collectionId);
+}
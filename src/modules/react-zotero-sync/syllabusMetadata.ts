@@ -6,7 +6,7 @@ import {
   GetByLibraryAndKeyArgs,
 } from "../syllabus";
 import SuperJSON from "superjson";
-import { Priority } from "../../utils/schemas";
+import { Priority, ReadingStatus } from "../../utils/schemas";
 
 export function useZoteroSyllabusMetadata(
   collectionId: number | GetByLibraryAndKeyArgs,
@@ -105,6 +105,13 @@ export function useZoteroSyllabusMetadata(
     [collectionId],
   );
 
+  const setReadingStatuses = useCallback(
+    (statuses: ReadingStatus[]) => {
+      SyllabusManager.setReadingStatuses(collectionId, statuses, "page");
+    },
+    [collectionId],
+  );
+
   return [
     syllabusMetadata,
     setDescription,
@@ -117,6 +124,7 @@ export function useZoteroSyllabusMetadata(
     setLocked,
     setLinks,
     setCslStyle,
+    setReadingStatuses,
   ] as const;
 }
 
@@ -0,0 +1,28 @@
+import { useEffect, useState } from "preact/hooks";
+import { useSyncExternalStore } from "react-dom/src";
+import { syllabusSnapshots } from "../../utils/syllabusSnapshots";
+import type { SyllabusSnapshot } from "../../utils/schemas";
+import { SyllabusManager } from "../syllabus";
+
+/**
+ * Snapshots of a syllabus, newest first (null while loading)
+ */
+export function useZoteroSyllabusSnapshots(collectionId: number) {
+  const version = useSyncExternalStore(
+    (onStoreChange: () => void) => syllabusSnapshots.subscribe(onStoreChange),
+    () => syllabusSnapshots.getVersion(),
+  );
+  const [snapshots, setSnapshots] = useState<SyllabusSnapshot[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    SyllabusManager.getSnapshots(collectionId).then((result) => {
+      if (!cancelled) setSnapshots(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [collectionId, version]);
+
+  return snapshots;
+}
@@ -180,10 +180,23 @@ function createSyllabiStore() {
       true,
     );
 
+    // Reading status can also live in the user's personal progress
+    const progressPrefObserverId = Zotero.Prefs.registerObserver(
+      SyllabusManager.getPreferenceKey(
+        SyllabusManager.settingsKeys.PERSONAL_PROGRESS,
+      ),
+      () => {
+        version++;
+        onStoreChange();
+      },
+      true,
+    );
+
     // Return an unsubscribe fn
     return () => {
       Zotero.Notifier.unregisterObserver(notifierId);
       Zotero.Prefs.unregisterObserver(prefObserverId);
+      Zotero.Prefs.unregisterObserver(progressPrefObserverId);
     };
   }
 
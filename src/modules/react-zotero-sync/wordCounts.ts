@@ -0,0 +1,13 @@
+import { useSyncExternalStore } from "react-dom/src";
+import { wordCountIndex } from "../../utils/wordCountIndex";
+
+/**
+ * Re-render when the background word-count index counts another PDF
+ * (reading times are then read via getReadingTimeSync as usual)
+ */
+export function useWordCountIndexVersion() {
+  return useSyncExternalStore(
+    (onStoreChange: () => void) => wordCountIndex.subscribe(onStoreChange),
+    () => wordCountIndex.getVersion(),
+  );
+}
@@ -6,17 +6,17 @@ import slugify from "slugify";
 import { getLocaleID, getString } from "../utils/locale";
 import { ExtraFieldTool, ZoteroToolkit } from "zotero-plugin-toolkit";
 import { renderSyllabusPage } from "./SyllabusPage";
-import { getSelectedCollection } from "../utils/zotero";
+import { getAllCollections, getSelectedCollection } from "../utils/zotero";
 import { getCurrentTab } from "../utils/window";
-import { set } from "lodash-es";
+import { cloneDeep, isEqual, omit, set } from "lodash-es";
 import { renderComponent } from "../utils/react";
 import { ItemPane } from "./ItemPane";
 import { h } from "preact";
 import { uuidv7 } from "uuidv7";
 import pluralize from "pluralize";
 import { getPref } from "../utils/prefs";
-import { ReadingSchedule } from "./ReadingSchedule";
-import { parseXULTemplate } from "../utils/ui";
+import { ReadingSchedule, ReadingScheduleParams } from "./ReadingSchedule";
+import { escapeHTML, parseXULTemplate } from "../utils/ui";
 import { TabManager } from "../utils/tabManager";
 import { FEATURE_FLAG } from "./featureFlags";
 import {
@@ -27,11 +27,40 @@ import {
   SettingsClassMetadataSchema,
   SettingsSyllabusMetadataSchema,
   ExportSyllabusMetadataSchema,
+  ExportSyllabusMetadataEntity,
+  EXPORT_FORMAT_VERSION,
+  getExportSyllabusMetadataVersion,
   DEFAULT_PRIORITIES,
+  DEFAULT_READING_STATUSES,
+  PersonalProgressDataSchema,
+  SyllabusBackupSchema,
+  classNumberSchema,
 } from "../utils/schemas";
 import * as z from "zod";
-import { getRDFStringForCollection, importRDF } from "../utils/rdf";
 import {
+  getRDFStringForCollection,
+  parseRDFItems,
+  saveRDFItems,
+} from "../utils/rdf";
+import { buildICalendar, type CalendarEvent } from "../utils/ical";
+import {
+  createCitationCache,
+  generateBibliographicReference,
+} from "../utils/cite";
+import {
+  formatReadingDate,
+  getTermShiftDays,
+  shiftISODate,
+} from "../utils/dates";
+import { toCSV } from "../utils/csv";
+import { getSyllabusClassGroups } from "./classGroups";
+import {
+  buildItemIdentifierIndex,
+  matchItemByIdentifier,
+  matchItemJSON,
+} from "../utils/identifiers";
+import {
+  getCachedItem,
   getCachedItemSyllabusData,
   getCachedPref,
   getCachedCollection,
@@ -44,6 +73,9 @@ import {
 enum SyllabusSettingsKey {
   COLLECTION_METADATA = "collectionMetadata",
   COLLECTION_VIEW_MODES = "collectionViewModes",
+  SYNCED_METADATA_MIGRATED = "syncedMetadataMigrated",
+  PENDING_SYNCED_METADATA_WRITES = "pendingSyncedMetadataWrites",
+  PERSONAL_PROGRESS = "personalProgress",
 }
 
 type GetByLibraryAndKeyArgs = Parameters<
@@ -61,9 +93,26 @@ import type {
   SettingsSyllabusMetadata,
   SettingsClassMetadata,
   Priority,
+  ReadingStatus,
+  PageRange,
+  PersonalAssignmentState,
+  PersonalProgressData,
+  SyllabusSnapshot,
+  SyllabusBackup,
 } from "../utils/schemas";
 import { installTalisAspireTranslator } from "../utils/translator";
 import { getReadingTimeSync, formatReadingTime } from "../utils/readingTime";
+import { formatPageRanges } from "../utils/pageRanges";
+import { wordCountIndex } from "../utils/wordCountIndex";
+import { syllabusSnapshots } from "../utils/syllabusSnapshots";
+import {
+  findSyllabusMetadataNote,
+  isSyllabusMetadataNote,
+  isTrashedSyllabusMetadataNote,
+  parseSyllabusMetadataNote,
+  trashSyllabusMetadataNote,
+  writeSyllabusMetadataNote,
+} from "../utils/syncedMetadata";
 
 // Re-export for backward compatibility with other modules
 export type {
@@ -75,21 +124,164 @@ export type {
   SettingsCollectionDictionaryData,
   SettingsSyllabusMetadata,
   SettingsClassMetadata,
+  PersonalAssignmentState,
 };
 
 // Export GetByLibraryAndKeyArgs for use in other modules
 export type { GetByLibraryAndKeyArgs };
 
+/**
+ * Column indexes of a CSV reading list, per syllabus field
+ */
+export type CSVColumnMapping = {
+  classNumber?: number;
+  classTitle?: number;
+  priority?: number;
+  instruction?: number;
+  identifier?: number;
+};
+
+export type CSVImportResult = {
+  imported: number;
+  unmatched: Array<{ row: number; identifier: string; reason: string }>;
+  // Rows that were imported, but with a value left out
+  warnings: Array<{ row: number; identifier: string; reason: string }>;
+};
+
+/**
+ * How imported syllabus metadata is combined with the existing syllabus:
+ * "merge" keeps existing classes and fields the file doesn't mention,
+ * "replace" discards them
+ */
+export type SyllabusImportStrategy = "merge" | "replace";
+
+/**
+ * What applying imported metadata would change, for previewing an import
+ */
+export type SyllabusMetadataDiff = {
+  fields: Array<{ field: string; from: string; to: string }>;
+  classes: {
+    added: number[];
+    removed: number[];
+    changed: Array<{ classNumber: number; fields: string[] }>;
+  };
+  priorities: { added: string[]; removed: string[]; changed: string[] };
+};
+
+/**
+ * What restoring a snapshot would change in the current syllabus
+ */
+export type SyllabusSnapshotComparison = {
+  metadata: SyllabusMetadataDiff;
+  readings: {
+    added: string[]; // Assigned in the snapshot, not now
+    removed: string[]; // Assigned now, not in the snapshot
+    changed: string[];
+  };
+  missingItems: number; // No longer in the collection, can't be restored
+};
+
+/**
+ * Shapes returned by the read-only HTTP API (see hooks.ts)
+ */
+export type SyllabusSummary = {
+  libraryID: number;
+  collectionKey: string;
+  title: string;
+  courseCode: string | null;
+  institution: string | null;
+  description: string | null;
+  classCount: number;
+  itemCount: number;
+};
+
+type SyllabusReading = { itemKey: string; title: string; citation: string };
+
+export type SyllabusDetail = {
+  libraryID: number;
+  collectionKey: string;
+  title: string;
+  description: string | null;
+  institution: string | null;
+  courseCode: string | null;
+  nomenclature: string;
+  links: string[];
+  priorities: Priority[];
+  statuses: ReadingStatus[];
+  locked: boolean;
+  classes: Array<{
+    classNumber: number | null;
+    title: string | null;
+    description: string | null;
+    readingDate: string | null;
+    assignments: Array<
+      SyllabusReading & {
+        id: string;
+        priority: string | null;
+        instruction: string | null;
+        pageRanges: PageRange[];
+        status: string | null;
+        statusChangedAt: string | null;
+      }
+    >;
+  }>;
+  furtherReading: SyllabusReading[];
+};
+
+export type ReadingScheduleEntry = {
+  date: string; // yyyy-MM-dd
+  libraryID: number;
+  collectionKey: string;
+  syllabusTitle: string;
+  classNumber: number;
+  classTitle: string | null;
+  readings: Array<{
+    itemKey: string;
+    title: string;
+    priority: string | null;
+    instruction: string | null;
+    pageRanges: PageRange[];
+    status: string | null;
+    statusChangedAt: string | null;
+  }>;
+};
+
+export type SyllabusDuplicateDateShift =
+  | { type: "none" }
+  | { type: "offset"; days: number }
+  | { type: "term-start"; termStart: string }; // yyyy-MM-dd
+
+// One undoable step, for a single syllabus
+export type SyllabusHistoryEntry = {
+  label: string;
+  // Item ID -> the syllabus' assignments on that item before and after
+  items: Map<
+    number,
+    { before?: ItemSyllabusAssignment[]; after?: ItemSyllabusAssignment[] }
+  >;
+  metadata: {
+    before?: SettingsSyllabusMetadata;
+    after: SettingsSyllabusMetadata;
+  } | null;
+};
+
+export type SyllabusImportPreview = {
+  collectionTitle: { from: string; to: string } | null;
+  metadata: Record<SyllabusImportStrategy, SyllabusMetadataDiff>;
+  items: { matched: string[]; created: string[] };
+};
+
 // All types are now inferred from Zod schemas in utils/schemas.ts
 
 const tabManager = FEATURE_FLAG.READING_SCHEDULE
-  ? new TabManager<Record<string, never>>({
+  ? new TabManager<ReadingScheduleParams>({
       type: "reading-list",
       title: "Reading Schedule",
       rootElementIdFactory: () => "reading-list-tab-root",
       data: { icon: "book" },
-      componentFactory: () => h(ReadingSchedule, {}),
+      componentFactory: (params) => h(ReadingSchedule, { params }),
       getTabId: () => "syllabus-reading-list-tab",
+      persistParams: true,
     })
   : null;
 
@@ -97,6 +289,8 @@ export class SyllabusManager {
   static notifierID: string | null = null;
   static syllabusItemPaneSection: false | string | null = null;
   static readingsTabPanelID: string | null = null;
+  // Set on shutdown, so delayed startup work doesn't run after it
+  static isShutDown = false;
 
   static readingScheduleTab = tabManager;
 
@@ -198,6 +392,7 @@ export class SyllabusManager {
 
   static onStartup(rootURI: string) {
     ztoolkit.log("SyllabusManager.onStartup");
+    this.isShutDown = false;
     // this.migrateCollectionIdentifiers();
     this.registerPrefs();
     this.registerNotifier();
@@ -206,10 +401,29 @@ export class SyllabusManager {
     this.registerSyllabusStatusColumn();
     this.registerReadingTimeColumn();
     this.registerSyllabusItemPaneSection();
+    this.syncCollectionMetadata().catch((e) => {
+      ztoolkit.log("Error syncing collection metadata:", e);
+    });
 
     Zotero.Promise.delay(10000).then(() => {
       installTalisAspireTranslator(rootURI);
     });
+
+    // Count words of syllabus PDFs in the background, once startup has settled
+    Zotero.Promise.delay(30000)
+      .then(async () => {
+        if (this.isShutDown) return;
+        await wordCountIndex.initialize();
+        // Zotero may have closed while the index was loading
+        if (this.isShutDown) {
+          await wordCountIndex.shutdown();
+          return;
+        }
+        this.indexSyllabusWordCounts();
+      })
+      .catch((e) => {
+        ztoolkit.log("Error starting word-count index:", e);
+      });
   }
 
   // /**
@@ -376,11 +590,83 @@ export class SyllabusManager {
 
   static onShutdown() {
     ztoolkit.log("SyllabusManager.onShutdown");
+    this.isShutDown = true;
     this.unregisterNotifier();
+    this.flushSyncedMetadataWrites();
+    wordCountIndex.shutdown();
+  }
+
+  /**
+   * Queue syllabus items' PDFs for the background word-count index
+   * (all syllabus items if none are given)
+   */
+  static indexSyllabusWordCounts(items?: Zotero.Item[]) {
+    wordCountIndex.enqueueItems(
+      items ||
+        this.getSyllabusCollections().flatMap((collection) =>
+          this.getCollectionSyllabusItems(collection.id).map(
+            ({ zoteroItem }) => zoteroItem,
+          ),
+        ),
+    );
+  }
+
+  /**
+   * Whether an item belongs to any syllabus collection
+   */
+  static isInSyllabus(item: Zotero.Item): boolean {
+    const syllabusCollectionIDs = new Set(
+      this.getSyllabusCollections().map((collection) => collection.id),
+    );
+    return item.getCollections().some((id) => syllabusCollectionIDs.has(id));
   }
 
   static registerNotifier() {
-    // Notifier registration removed - using React stores for updates
+    // UI updates are handled by React stores; this observer only pulls
+    // synced metadata notes (e.g. edited on another device) into the local pref
+    // and queues new syllabus readings for the word-count index
+    this.notifierID = Zotero.Notifier.registerObserver(
+      {
+        notify: (event: string, type: string, ids: (number | string)[]) => {
+          if (
+            type === "item" &&
+            (event === "add" || event === "modify" || event === "trash")
+          ) {
+            for (const id of ids) {
+              const item = typeof id === "number" ? getCachedItem(id) : null;
+              if (item && isSyllabusMetadataNote(item)) {
+                this.pullSyncedMetadataNote(item);
+              }
+              // Settings removed here or on another device
+              if (item && isTrashedSyllabusMetadataNote(item)) {
+                this.dropTrashedSyncedMetadata(item);
+              }
+              // A PDF was attached to a syllabus item
+              const parentItem =
+                event === "add" && item?.parentItemID
+                  ? getCachedItem(item.parentItemID)
+                  : null;
+              if (parentItem && this.isInSyllabus(parentItem)) {
+                this.indexSyllabusWordCounts([parentItem]);
+              }
+            }
+          }
+          // ids are "collectionID-itemID" strings
+          if (type === "collection-item" && event === "add") {
+            for (const id of ids) {
+              const itemId = parseInt(String(id).split("-")[1], 10);
+              const item = isNaN(itemId) ? null : getCachedItem(itemId);
+              if (item && isSyllabusMetadataNote(item)) {
+                this.pullSyncedMetadataNote(item);
+              } else if (item?.isRegularItem() && this.isInSyllabus(item)) {
+                this.indexSyllabusWordCounts([item]);
+              }
+            }
+          }
+        },
+      },
+      ["item", "collection-item"],
+    );
   }
 
   static unregisterNotifier() {
@@ -922,8 +1208,15 @@ export class SyllabusManager {
             item,
             selectedCollection.id,
           );
-          // Return "done" or "" for sorting (empty string sorts first)
-          return firstAssignment?.status === "done" ? "done" : "";
+          const status = SyllabusManager.getReadingStatus(
+            selectedCollection.id,
+            firstAssignment?.status,
+          );
+          if (!status) {
+            return "";
+          }
+          // Encode order for sorting: "order|complete|color|name"
+          return `${String(status.order).padStart(3, "0")}|${status.complete ? 1 : 0}|${status.color || ""}|${status.name}`;
         }
 
         return "";
@@ -933,15 +1226,21 @@ export class SyllabusManager {
         container.className = `cell ${column.className}`;
         container.style.display = "flex";
         container.style.alignItems = "center";
-        container.style.justifyContent = "center";
-
-        if (data === "done") {
-          const checkmark = doc.createElement("span");
-          checkmark.textContent = "✓";
-          checkmark.style.color = "var(--zotero-color-accent-green)";
-          checkmark.style.fontWeight = "bold";
-          checkmark.style.fontSize = "14px";
-          container.appendChild(checkmark);
+        container.style.gap = "4px";
+
+        if (data) {
+          const [, complete, color, ...nameParts] = data.split("|");
+          const dot = doc.createElement("span");
+          dot.textContent = complete === "1" ? "✓" : "●";
+          dot.style.color = color || "var(--fill-secondary)";
+          dot.style.fontWeight = "bold";
+          container.appendChild(dot);
+
+          const label = doc.createElement("span");
+          label.textContent = nameParts.join("|");
+          label.style.overflow = "hidden";
+          label.style.textOverflow = "ellipsis";
+          container.appendChild(label);
         }
 
         return container;
@@ -958,7 +1257,18 @@ export class SyllabusManager {
       // width: "100px",
       // fixedWidth: true,
       dataProvider: (item: Zotero.Item, dataKey: string) => {
-        const readingTime = getReadingTimeSync(item, { roundUp: true });
+        // Within a syllabus, only the assigned pages count
+        const selectedCollection = ztoolkit
+          .getGlobal("ZoteroPane")
+          .getSelectedCollection();
+        const pageRanges = selectedCollection
+          ? SyllabusManager.getFirstAssignment(item, selectedCollection.id)
+              ?.pageRanges
+          : undefined;
+        const readingTime = getReadingTimeSync(item, {
+          roundUp: true,
+          pageRanges,
+        });
         if (readingTime === null) {
           return "";
         }
@@ -1326,22 +1636,62 @@ export class SyllabusManager {
     }
   }
 
+  /**
+   * Apply a change from the context menu to the first assignment of every
+   * selected item in the selected collection, as a single undoable step
+   */
+  static async applyToSelectedItems(
+    label: string,
+    update: Partial<ItemSyllabusAssignment>,
+  ): Promise<void> {
+    const zoteroPane = ztoolkit.getGlobal("ZoteroPane");
+    const selectedCollection = zoteroPane.getSelectedCollection();
+    if (!selectedCollection) return;
+    const items = zoteroPane.getSelectedItems();
+    try {
+      await this.withHistoryGroup(selectedCollection.id, label, async () => {
+        for (const item of items) {
+          if (item.isRegularItem()) {
+            await this.applyToFirstAssignment(
+              item,
+              selectedCollection.id,
+              update,
+            );
+            await item.saveTx();
+          }
+        }
+      });
+    } catch (error) {
+      ztoolkit.log(`Error applying "${label}" to selected items:`, error);
+      new ztoolkit.ProgressWindow("Zotero Syllabus", {
+        closeOnClick: true,
+        closeTime: 5000,
+      })
+        .createLine({
+          text: error instanceof Error ? error.message : String(error),
+          type: "fail",
+        })
+        .show();
+    }
+  }
+
+  /**
+   * Whether the collection selected in the library has a locked syllabus
+   * (hides menus that would change it; reading status stays available)
+   */
+  static isSelectedCollectionLocked(): boolean {
+    const selectedCollection = ztoolkit
+      .getGlobal("ZoteroPane")
+      ?.getSelectedCollection();
+    return !!selectedCollection && this.getLocked(selectedCollection.id);
+  }
+
   static setupContextMenuSetPriority() {
     ztoolkit.Menu.unregister("syllabus-set-priority-menu");
-    const createPriorityHandler = (priority: string) => async () => {
-      const zoteroPane = ztoolkit.getGlobal("ZoteroPane");
-      const selectedCollection = zoteroPane.getSelectedCollection();
-      if (!selectedCollection) return;
-      const items = zoteroPane.getSelectedItems();
-      for (const item of items) {
-        if (item.isRegularItem()) {
-          await this.applyToFirstAssignment(item, selectedCollection.id, {
-            priority: priority || undefined,
-          });
-          await item.saveTx();
-        }
-      }
-    };
+    const createPriorityHandler = (priority: string) => () =>
+      this.applyToSelectedItems("Change priority", {
+        priority: priority || undefined,
+      });
 
     // Get the selected collection to use collection-specific priorities
     const zoteroPane = ztoolkit.getGlobal("ZoteroPane");
@@ -1368,6 +1718,7 @@ export class SyllabusManager {
       id: "syllabus-set-priority-menu",
       label: "Set Priority",
       icon: "chrome://zotero/skin/16/universal/book.svg",
+      getVisibility: () => !this.isSelectedCollectionLocked(),
       children: priorityOptions
         .map((opt) => {
           // Separate "(None)" option with a separator before it
@@ -1400,6 +1751,7 @@ export class SyllabusManager {
       id: "syllabus-reassign-class-number-menu",
       icon: "chrome://zotero/skin/16/universal/book.svg",
       label: "Assign to a class",
+      getVisibility: () => !this.isSelectedCollectionLocked(),
       children: SyllabusManager.buildClassNumberChildren(),
     });
   }
@@ -1426,21 +1778,8 @@ export class SyllabusManager {
     const nextClassNumber =
       sortedClassNumbers.length > 0 ? Math.max(...sortedClassNumbers) + 1 : 1;
 
-    const createClassHandler =
-      (classNumber: number | undefined) => async () => {
-        const zoteroPane = ztoolkit.getGlobal("ZoteroPane");
-        const selectedCollection = zoteroPane.getSelectedCollection();
-        if (!selectedCollection) return;
-        const items = zoteroPane.getSelectedItems();
-        for (const item of items) {
-          if (item.isRegularItem()) {
-            await this.applyToFirstAssignment(item, selectedCollection.id, {
-              classNumber,
-            });
-            await item.saveTx();
-          }
-        }
-      };
+    const createClassHandler = (classNumber: number | undefined) => () =>
+      this.applyToSelectedItems("Change class", { classNumber });
 
     const children: any[] = sortedClassNumbers.map((classNumber) => {
       const classTitle = this.getClassTitle(
@@ -1484,20 +1823,15 @@ export class SyllabusManager {
 
   static setupContextMenuSetStatus() {
     ztoolkit.Menu.unregister("syllabus-set-status-menu");
-    const createStatusHandler = (status: "done" | null) => async () => {
-      const zoteroPane = ztoolkit.getGlobal("ZoteroPane");
-      const selectedCollection = zoteroPane.getSelectedCollection();
-      if (!selectedCollection) return;
-      const items = zoteroPane.getSelectedItems();
-      for (const item of items) {
-        if (item.isRegularItem()) {
-          await this.applyToFirstAssignment(item, selectedCollection.id, {
-            status: status || undefined,
-          });
-          await item.saveTx();
-        }
-      }
-    };
+    const createStatusHandler = (status: string | null) => () =>
+      this.applyToSelectedItems("Change reading status", { status });
+
+    // Use collection-specific reading statuses if a collection is selected
+    const zoteroPane = ztoolkit.getGlobal("ZoteroPane");
+    const selectedCollection = zoteroPane?.getSelectedCollection();
+    const statusOptions = selectedCollection
+      ? this.getReadingStatusesForCollection(selectedCollection.id)
+      : this.getDefaultReadingStatuses();
 
     ztoolkit.Menu.register("item", {
       tag: "menu",
@@ -1505,14 +1839,15 @@ export class SyllabusManager {
       label: "Set Reading Status",
       icon: "chrome://zotero/skin/16/universal/book.svg",
       children: [
-        {
+        ...statusOptions.map((status) => ({
           tag: "menuitem" as const,
-          label: "Done",
-          commandListener: createStatusHandler("done"),
-        },
+          label: status.name,
+          commandListener: createStatusHandler(status.id),
+        })),
+        { tag: "menuseparator" as const },
         {
           tag: "menuitem" as const,
-          label: "Not Done",
+          label: "(None)",
           commandListener: createStatusHandler(null),
         },
       ],
@@ -1524,6 +1859,7 @@ export class SyllabusManager {
     title: string,
     source: "page" | "background",
   ) {
+    this.assertUnlocked(collectionId, "setCollectionTitle");
     const collection = getCachedCollectionById(collectionId);
     if (collection) {
       try {
@@ -1550,6 +1886,29 @@ export class SyllabusManager {
     return getCachedItemSyllabusData(item.id);
   }
 
+  /**
+   * Syllabus data as saved in an item's Extra field, bypassing the cache
+   * (callers mutate the cached object before saving it)
+   */
+  static getSavedItemSyllabusData(item: Zotero.Item): ItemSyllabusData {
+    const jsonStr = this.extraFieldTool.getExtraField(
+      item,
+      this.SYLLABUS_DATA_KEY,
+    );
+    if (!jsonStr) {
+      return {};
+    }
+    try {
+      const result = ItemSyllabusDataEntity.safeParse(JSON.parse(jsonStr));
+      if (result.type === "ok") {
+        return result.value;
+      }
+    } catch (e) {
+      ztoolkit.log("getSavedItemSyllabusData: Invalid saved data:", e);
+    }
+    return {};
+  }
+
   static getItemSyllabusDataForCollection(
     item: Zotero.Item,
     collectionId: number | GetByLibraryAndKeyArgs,
@@ -1569,7 +1928,7 @@ export class SyllabusManager {
     if (!assignments || !Array.isArray(assignments)) {
       return [];
     }
-    return assignments;
+    return this.withPersonalState(collectionId, assignments);
   }
 
   /**
@@ -1594,6 +1953,12 @@ export class SyllabusManager {
     }
     const validatedData = inputResult.value;
 
+    // Locked syllabi only accept changes to student-side fields
+    this.assertItemDataChangeAllowed(item, validatedData, "setItemData");
+
+    // Saved data before the change, for the undo history
+    const savedData = this.getSavedItemSyllabusData(item);
+
     // Double-check: validate the stringified JSON will parse correctly
     const jsonStr = JSON.stringify(validatedData);
     try {
@@ -1626,6 +1991,24 @@ export class SyllabusManager {
     // Invalidate cache immediately after setting the extra field
     // This ensures the cache reflects the current state even before the item is saved
     invalidateCachedItemSyllabusData(item.id);
+
+    // Record each syllabus' part of the change for undo
+    for (const collectionKeyStr of new Set([
+      ...Object.keys(savedData),
+      ...Object.keys(validatedData),
+    ])) {
+      const before = savedData[collectionKeyStr];
+      const after = validatedData[collectionKeyStr];
+      if (isEqual(before, after)) continue;
+      this.recordHistory(collectionKeyStr, "Edit reading", source, (entry) => {
+        const existing = entry.items.get(item.id);
+        entry.items.set(item.id, {
+          before: existing ? existing.before : cloneDeep(before),
+          after: cloneDeep(after),
+        });
+      });
+    }
+
     this.onItemUpdate(item, source);
   }
 
@@ -1834,7 +2217,7 @@ export class SyllabusManager {
     if (!Array.isArray(res)) {
       return [];
     }
-    return res;
+    return this.withPersonalState(collectionId, res);
   }
 
   /**
@@ -2064,20 +2447,42 @@ export class SyllabusManager {
     );
     const assignments = data[collectionKeyStr] || [];
 
-    // Add new entry with ID
-    const newEntry = ItemSyllabusAssignmentEntity.safeParse({
+    // In shared libraries the reader's status is kept out of the item
+    const personalStatus =
+      "status" in metadata && this.isSharedLibrary(normalized.libraryID)
+        ? { status: metadata.status || null }
+        : null;
+    if (personalStatus) {
+      metadata = omit(metadata, ["status", "statusChangedAt"]);
+    }
+
+    // Add new entry with ID (it's new data, so the latest version's schema
+    // applies; it gets its ID from the schema's default)
+    const newEntry = ItemSyllabusAssignmentEntity.latestSchema.safeParse({
       classNumber,
       ...metadata,
+      ...(metadata.status && !metadata.statusChangedAt
+        ? { statusChangedAt: new Date().toISOString() }
+        : {}),
     });
-    if (newEntry.type !== "ok") {
+    if (!newEntry.success) {
       ztoolkit.log("Error adding new assignment:", newEntry.error);
       return;
     }
-    assignments.push(newEntry.value);
+    assignments.push(newEntry.data);
 
     // New entry already has ID, existing entries validated via getItemSyllabusData
     data[collectionKeyStr] = assignments;
     await this.setItemData(item, data, source);
+
+    if (personalStatus) {
+      this.setPersonalAssignmentState(
+        item,
+        collectionId,
+        newEntry.data.id,
+        personalStatus,
+      );
+    }
   }
 
   /**
@@ -2169,6 +2574,10 @@ export class SyllabusManager {
       normalized.libraryID,
       normalized.key,
     );
+    if (!data[collectionKeyStr]) {
+      return;
+    }
+    await this.createSnapshot(collectionId, "Before removing readings");
     delete data[collectionKeyStr];
     await this.setItemData(item, data, source);
   }
@@ -2193,6 +2602,17 @@ export class SyllabusManager {
       // Can't update an assignment that doesn't exist
       return;
     }
+
+    // In shared libraries the reader's status is kept out of the item
+    if ("status" in metadata && this.isSharedLibrary(normalized.libraryID)) {
+      this.setPersonalAssignmentState(item, collectionId, assignmentId, {
+        status: metadata.status || null,
+      });
+      metadata = omit(metadata, ["status", "statusChangedAt"]);
+      if (Object.keys(metadata).length === 0) {
+        return;
+      }
+    }
     const collectionKeyStr = this.getCollectionReferenceString(
       normalized.libraryID,
       normalized.key,
@@ -2203,8 +2623,15 @@ export class SyllabusManager {
     const entryIndex = entries.findIndex((e) => e.id === assignmentId);
 
     if (entryIndex >= 0) {
-      // Update existing entry
-      entries[entryIndex] = { ...entries[entryIndex], ...metadata };
+      // Update existing entry, recording when its status changes
+      const statusChanged =
+        "status" in metadata &&
+        (metadata.status || null) !== (entries[entryIndex].status || null);
+      entries[entryIndex] = {
+        ...entries[entryIndex],
+        ...metadata,
+        ...(statusChanged ? { statusChangedAt: new Date().toISOString() } : {}),
+      };
     } else {
       // Assignment not found by ID - this shouldn't happen, but log it
       ztoolkit.log("Warning: Assignment not found by ID:", assignmentId);
@@ -2276,6 +2703,7 @@ export class SyllabusManager {
     metadata: SettingsCollectionDictionaryData,
     source: "page" | "item-pane" | "background",
     emitChange: boolean = true,
+    syncToNotes: boolean = true,
   ) {
     const inputResult =
       SettingsCollectionDictionaryDataSchema.safeParse(metadata);
@@ -2286,7 +2714,25 @@ export class SyllabusManager {
     const prefKey = SyllabusManager.getPreferenceKey(
       SyllabusSettingsKey.COLLECTION_METADATA,
     );
+    // Diff against the raw pref (the cached dictionary may already be mutated)
+    const previousData = JSON.parse(
+      String(Zotero.Prefs.get(prefKey, true) || "{}"),
+    );
     Zotero.Prefs.set(prefKey, JSON.stringify(inputResult.data), true);
+    // Removed collections are written too (their note is trashed)
+    const collectionKeyStrs = new Set([
+      ...Object.keys(previousData),
+      ...Object.keys(inputResult.data),
+    ]);
+    for (const collectionKeyStr of collectionKeyStrs) {
+      if (
+        syncToNotes &&
+        JSON.stringify(previousData[collectionKeyStr]) !==
+          JSON.stringify(inputResult.data[collectionKeyStr])
+      ) {
+        this.scheduleSyncedMetadataWrite(collectionKeyStr);
+      }
+    }
     if (emitChange) {
       // Preference change notifications are handled by Zotero.Prefs.registerObserver
       // if (source !== "item-pane") this.reloadItemPane();
@@ -2295,6 +2741,246 @@ export class SyllabusManager {
     }
   }
 
+  // Pending note writes per collection (libraryID:key), debounced so that
+  // typing into the syllabus page doesn't create a sync version per keystroke
+  static syncedMetadataWriteTimeouts = new Map<
+    string,
+    ReturnType<typeof setTimeout>
+  >();
+
+  static SYNCED_METADATA_WRITE_DELAY = 2000;
+
+  /**
+   * Queue a write of a collection's metadata to its synced note
+   * The collection is also remembered in a pref until the note is written,
+   * so a write cut short by closing Zotero is finished on the next startup
+   */
+  static scheduleSyncedMetadataWrite(collectionKeyStr: string) {
+    const existingTimeout =
+      this.syncedMetadataWriteTimeouts.get(collectionKeyStr);
+    if (existingTimeout) {
+      clearTimeout(existingTimeout);
+    }
+    this.setSyncedMetadataWritePending(collectionKeyStr, true);
+    const timeout = setTimeout(() => {
+      this.syncedMetadataWriteTimeouts.delete(collectionKeyStr);
+      this.runSyncedMetadataWrite(collectionKeyStr);
+    }, this.SYNCED_METADATA_WRITE_DELAY);
+    this.syncedMetadataWriteTimeouts.set(collectionKeyStr, timeout);
+  }
+
+  /**
+   * Write queued notes now instead of waiting (e.g. when Zotero closes)
+   */
+  static flushSyncedMetadataWrites() {
+    for (const [collectionKeyStr, timeout] of this
+      .syncedMetadataWriteTimeouts) {
+      clearTimeout(timeout);
+      this.runSyncedMetadataWrite(collectionKeyStr);
+    }
+    this.syncedMetadataWriteTimeouts.clear();
+  }
+
+  static runSyncedMetadataWrite(collectionKeyStr: string) {
+    this.writeSyncedMetadata(collectionKeyStr)
+      .then(() => {
+        // Unless it was edited again while the note was being written
+        if (!this.syncedMetadataWriteTimeouts.has(collectionKeyStr)) {
+          this.setSyncedMetadataWritePending(collectionKeyStr, false);
+        }
+      })
+      .catch((e) => {
+        ztoolkit.log("Error writing synced metadata note:", e);
+      });
+  }
+
+  /**
+   * Collections whose local metadata hasn't reached their synced note yet
+   */
+  static getPendingSyncedMetadataWrites(): string[] {
+    const prefKey = this.getPreferenceKey(
+      SyllabusSettingsKey.PENDING_SYNCED_METADATA_WRITES,
+    );
+    try {
+      const pending = JSON.parse(
+        String(Zotero.Prefs.get(prefKey, true) || "[]"),
+      );
+      return Array.isArray(pending) ? pending.map(String) : [];
+    } catch (e) {
+      ztoolkit.log("Error reading pending synced metadata writes:", e);
+      return [];
+    }
+  }
+
+  static setSyncedMetadataWritePending(
+    collectionKeyStr: string,
+    pending: boolean,
+  ) {
+    const prefKey = this.getPreferenceKey(
+      SyllabusSettingsKey.PENDING_SYNCED_METADATA_WRITES,
+    );
+    const pendingWrites = new Set(this.getPendingSyncedMetadataWrites());
+    if (pending) {
+      pendingWrites.add(collectionKeyStr);
+    } else {
+      pendingWrites.delete(collectionKeyStr);
+    }
+    Zotero.Prefs.set(prefKey, JSON.stringify([...pendingWrites]), true);
+  }
+
+  /**
+   * Write a collection's metadata from the local pref to its synced note
+   * (or trash the note if the collection no longer has metadata)
+   */
+  static async writeSyncedMetadata(collectionKeyStr: string) {
+    const [libraryID, ...keyParts] = collectionKeyStr.split(":");
+    const collection = getCachedCollectionByKey(
+      parseInt(libraryID, 10),
+      keyParts.join(":"),
+    );
+    if (!collection) {
+      return;
+    }
+    const metadata =
+      this.getSettingsCollectionDictionaryData()[collectionKeyStr];
+    if (!metadata) {
+      await trashSyllabusMetadataNote(collection);
+      return;
+    }
+    await writeSyllabusMetadataNote(collection, metadata);
+  }
+
+  /**
+   * Remove a collection's metadata from the local pref once its synced
+   * note is in the trash, unless it has been given a new note since
+   */
+  static dropTrashedSyncedMetadata(note: Zotero.Item) {
+    const allData = this.getSettingsCollectionDictionaryData() || {};
+    let changed = false;
+    for (const collectionId of note.getCollections()) {
+      const collection = getCachedCollectionById(collectionId);
+      if (!collection || findSyllabusMetadataNote(collection)) {
+        continue;
+      }
+      const collectionKeyStr = this.getCollectionReferenceString(
+        collection.libraryID,
+        collection.key,
+      );
+      if (
+        this.syncedMetadataWriteTimeouts.has(collectionKeyStr) ||
+        !(collectionKeyStr in allData)
+      ) {
+        continue;
+      }
+      delete allData[collectionKeyStr];
+      changed = true;
+    }
+    if (changed) {
+      this.setSettingsCollectionDictionaryData(
+        allData,
+        "background",
+        true,
+        false,
+      );
+    }
+  }
+
+  /**
+   * Copy the metadata stored in a synced note into the local pref
+   */
+  static pullSyncedMetadataNote(note: Zotero.Item) {
+    const metadata = parseSyllabusMetadataNote(note);
+    if (!metadata) {
+      return;
+    }
+    const allData = this.getSettingsCollectionDictionaryData() || {};
+    let changed = false;
+    for (const collectionId of note.getCollections()) {
+      const collection = getCachedCollectionById(collectionId);
+      if (!collection) {
+        continue;
+      }
+      const collectionKeyStr = this.getCollectionReferenceString(
+        collection.libraryID,
+        collection.key,
+      );
+      // Don't clobber local edits that haven't been written to the note yet
+      if (
+        this.syncedMetadataWriteTimeouts.has(collectionKeyStr) ||
+        this.getPendingSyncedMetadataWrites().includes(collectionKeyStr)
+      ) {
+        continue;
+      }
+      if (
+        JSON.stringify(allData[collectionKeyStr]) !== JSON.stringify(metadata)
+      ) {
+        allData[collectionKeyStr] = metadata;
+        changed = true;
+      }
+    }
+    if (changed) {
+      this.setSettingsCollectionDictionaryData(
+        allData,
+        "background",
+        true,
+        false,
+      );
+    }
+  }
+
+  /**
+   * Reconcile the local pref with the synced metadata notes on startup.
+   * The first run migrates existing pref data into notes; afterwards notes
+   * are the source of truth and are pulled into the pref.
+   */
+  static async syncCollectionMetadata() {
+    const migratedPrefKey = this.getPreferenceKey(
+      SyllabusSettingsKey.SYNCED_METADATA_MIGRATED,
+    );
+    const allData = this.getSettingsCollectionDictionaryData() || {};
+
+    if (!Zotero.Prefs.get(migratedPrefKey, true)) {
+      ztoolkit.log("syncCollectionMetadata: migrating pref metadata to notes");
+      for (const [collectionKeyStr, metadata] of Object.entries(allData)) {
+        const [libraryID, ...keyParts] = collectionKeyStr.split(":");
+        const collection = getCachedCollectionByKey(
+          parseInt(libraryID, 10),
+          keyParts.join(":"),
+        );
+        if (!collection || findSyllabusMetadataNote(collection)) {
+          continue;
+        }
+        await writeSyllabusMetadataNote(collection, metadata);
+      }
+      Zotero.Prefs.set(migratedPrefKey, true, true);
+    }
+
+    // Local edits that hadn't reached their note when Zotero last closed
+    // are newer than the note, so they're written before anything is pulled
+    for (const collectionKeyStr of this.getPendingSyncedMetadataWrites()) {
+      try {
+        await this.writeSyncedMetadata(collectionKeyStr);
+        this.setSyncedMetadataWritePending(collectionKeyStr, false);
+      } catch (e) {
+        ztoolkit.log("Error writing pending synced metadata note:", e);
+      }
+    }
+
+    for (const collection of getAllCollections()) {
+      const note = findSyllabusMetadataNote(collection);
+      if (note) {
+        this.pullSyncedMetadataNote(note);
+        continue;
+      }
+      const trashedNote = collection
+        .getChildItems(false, true)
+        .find((item) => isTrashedSyllabusMetadataNote(item));
+      if (trashedNote) {
+        this.dropTrashedSyncedMetadata(trashedNote);
+      }
+    }
+  }
+
   /**
    * Get collection metadata from preferences
    */
@@ -2316,6 +3002,21 @@ export class SyllabusManager {
     return data[collectionKeyStr];
   }
 
+  /**
+   * Collection metadata as saved in preferences, bypassing the cache
+   * (callers mutate the cached dictionary before saving it)
+   */
+  static getSavedCollectionMetadata(
+    collectionKeyStr: string,
+  ): SettingsSyllabusMetadata | undefined {
+    const prefKey = SyllabusManager.getPreferenceKey(
+      SyllabusSettingsKey.COLLECTION_METADATA,
+    );
+    return JSON.parse(String(Zotero.Prefs.get(prefKey, true) || "{}"))[
+      collectionKeyStr
+    ];
+  }
+
   /**
    * Set collection metadata in preferences
    * Validates with Zod before saving to ensure 100% type safety
@@ -2336,9 +3037,418 @@ export class SyllabusManager {
       normalized.libraryID,
       normalized.key,
     );
-    allData[collectionKeyStr] = metadata;
-    this.setSettingsCollectionDictionaryData(allData, source);
-  }
+
+    // Locked syllabi only accept (un)locking and student-side fields.
+    // Compare with the raw pref (the cached dictionary may already be mutated)
+    const savedMetadata = this.getSavedCollectionMetadata(collectionKeyStr);
+    if (
+      savedMetadata?.locked &&
+      !this.isLockExemptMetadataChange(savedMetadata, metadata)
+    ) {
+      throw new Error("setCollectionMetadata: This syllabus is locked");
+    }
+
+    if (!isEqual(savedMetadata, metadata)) {
+      this.recordHistory(collectionKeyStr, "Edit syllabus", source, (entry) => {
+        entry.metadata = {
+          before: entry.metadata
+            ? entry.metadata.before
+            : cloneDeep(savedMetadata),
+          after: cloneDeep(metadata),
+        };
+      });
+    }
+
+    allData[collectionKeyStr] = metadata;
+    this.setSettingsCollectionDictionaryData(allData, source);
+  }
+
+  // Undo/redo history per syllabus (libraryID:key), most recent step last.
+  // Kept in memory only, so it starts afresh with every Zotero session
+  static history = new Map<
+    string,
+    { undo: SyllabusHistoryEntry[]; redo: SyllabusHistoryEntry[] }
+  >();
+  static HISTORY_LIMIT = 50;
+  static historyVersion = 0;
+  static historyListeners = new Set<() => void>();
+  // Steps being collected by withHistoryGroup, per syllabus (libraryID:key),
+  // so writes to other syllabi in the meantime stay separate steps
+  static historyGroups = new Map<string, SyllabusHistoryEntry>();
+  static isApplyingHistory = false;
+
+  /**
+   * Subscribe to undo/redo history changes (returns an unsubscribe fn)
+   */
+  static subscribeHistory(listener: () => void) {
+    this.historyListeners.add(listener);
+    return () => {
+      this.historyListeners.delete(listener);
+    };
+  }
+
+  static notifyHistoryChange() {
+    this.historyVersion++;
+    for (const listener of this.historyListeners) {
+      listener();
+    }
+  }
+
+  /**
+   * Run several changes to a syllabus (e.g. to every selected reading) as a
+   * single undoable step. Nested groups for the same syllabus join the outermost one
+   */
+  static async withHistoryGroup<T>(
+    collectionId: number | GetByLibraryAndKeyArgs,
+    label: string,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    const normalized = this.normalizeCollectionIdentifier(collectionId);
+    if (!normalized || this.isApplyingHistory) {
+      return fn();
+    }
+    const collectionKeyStr = this.getCollectionReferenceString(
+      normalized.libraryID,
+      normalized.key,
+    );
+    if (this.historyGroups.has(collectionKeyStr)) {
+      return fn();
+    }
+    const entry: SyllabusHistoryEntry = {
+      label,
+      items: new Map(),
+      metadata: null,
+    };
+    this.historyGroups.set(collectionKeyStr, entry);
+    try {
+      return await fn();
+    } finally {
+      this.historyGroups.delete(collectionKeyStr);
+      this.pushHistoryEntry(collectionKeyStr, entry);
+    }
+  }
+
+  /**
+   * Add a change to the current step (or a new step of its own)
+   * Background writes (migrations, sync) are only recorded as part of a group
+   */
+  static recordHistory(
+    collectionKeyStr: string,
+    label: string,
+    source: "page" | "item-pane" | "context-menu" | "background",
+    record: (entry: SyllabusHistoryEntry) => void,
+  ) {
+    if (this.isApplyingHistory) return;
+    const groupEntry = this.historyGroups.get(collectionKeyStr);
+    if (!groupEntry && source === "background") return;
+
+    const entry = groupEntry || { label, items: new Map(), metadata: null };
+    record(entry);
+    if (!groupEntry) {
+      this.pushHistoryEntry(collectionKeyStr, entry);
+    }
+  }
+
+  static pushHistoryEntry(
+    collectionKeyStr: string,
+    entry: SyllabusHistoryEntry,
+  ) {
+    // Skip steps that ended where they started (e.g. after a rollback)
+    const changed =
+      Array.from(entry.items.values()).some(
+        ({ before, after }) => !isEqual(before, after),
+      ) ||
+      (entry.metadata !== null &&
+        !isEqual(entry.metadata.before, entry.metadata.after));
+    if (!changed) return;
+
+    const stacks = this.history.get(collectionKeyStr) || { undo: [], redo: [] };
+    stacks.undo.push(entry);
+    if (stacks.undo.length > this.HISTORY_LIMIT) {
+      stacks.undo.shift();
+    }
+    stacks.redo = [];
+    this.history.set(collectionKeyStr, stacks);
+    this.notifyHistoryChange();
+  }
+
+  /**
+   * Labels of the steps undo and redo would apply, if any
+   */
+  static getHistoryState(collectionId: number | GetByLibraryAndKeyArgs): {
+    undoLabel: string | null;
+    redoLabel: string | null;
+  } {
+    const normalized = this.normalizeCollectionIdentifier(collectionId);
+    const stacks = normalized
+      ? this.history.get(
+          this.getCollectionReferenceString(
+            normalized.libraryID,
+            normalized.key,
+          ),
+        )
+      : undefined;
+    return {
+      undoLabel: stacks?.undo[stacks.undo.length - 1]?.label || null,
+      redoLabel: stacks?.redo[stacks.redo.length - 1]?.label || null,
+    };
+  }
+
+  static async undo(
+    collectionId: number | GetByLibraryAndKeyArgs,
+    source: "page",
+  ): Promise<void> {
+    await this.applyHistoryEntry(collectionId, "undo", source);
+  }
+
+  static async redo(
+    collectionId: number | GetByLibraryAndKeyArgs,
+    source: "page",
+  ): Promise<void> {
+    await this.applyHistoryEntry(collectionId, "redo", source);
+  }
+
+  /**
+   * Put a syllabus' items and metadata back to how they were before
+   * (undo) or after (redo) the most recent step
+   */
+  static async applyHistoryEntry(
+    collectionId: number | GetByLibraryAndKeyArgs,
+    direction: "undo" | "redo",
+    source: "page",
+  ): Promise<void> {
+    const normalized = this.normalizeCollectionIdentifier(collectionId);
+    if (!normalized) {
+      return;
+    }
+    const collectionKeyStr = this.getCollectionReferenceString(
+      normalized.libraryID,
+      normalized.key,
+    );
+    const stacks = this.history.get(collectionKeyStr);
+    const entry = stacks?.[direction].pop();
+    if (!stacks || !entry) {
+      return;
+    }
+    const state = direction === "undo" ? "before" : "after";
+
+    this.isApplyingHistory = true;
+    try {
+      for (const [itemId, change] of entry.items) {
+        const item = getCachedItem(itemId);
+        // Items deleted since can't be restored
+        if (!item || item.deleted) continue;
+        const data = this.getSavedItemSyllabusData(item);
+        const assignments = change[state];
+        if (assignments && assignments.length > 0) {
+          data[collectionKeyStr] = cloneDeep(assignments);
+        } else {
+          delete data[collectionKeyStr];
+        }
+        await this.setItemData(item, data, source);
+      }
+      if (entry.metadata) {
+        await this.setCollectionMetadata(
+          collectionId,
+          cloneDeep(
+            entry.metadata[state] || SettingsSyllabusMetadataSchema.parse({}),
+          ),
+          source,
+        );
+      }
+    } catch (err) {
+      // Keep the step so it can be tried again
+      stacks[direction].push(entry);
+      throw err;
+    } finally {
+      this.isApplyingHistory = false;
+    }
+
+    stacks[direction === "undo" ? "redo" : "undo"].push(entry);
+    this.notifyHistoryChange();
+    this.onClassListUpdate();
+  }
+
+  // Repeated snapshots for the same reason within this time (e.g. removing
+  // several readings one after another) share the first one
+  static SNAPSHOT_COALESCE_MS = 60 * 1000;
+
+  /**
+   * Save a copy of a syllabus' metadata and assignments before a
+   * destructive change. Never throws: a failed snapshot is logged and the
+   * change goes ahead
+   */
+  static async createSnapshot(
+    collectionId: number | GetByLibraryAndKeyArgs,
+    reason: string,
+  ): Promise<SyllabusSnapshot | null> {
+    try {
+      const collection = this.getCollectionFromIdentifier(collectionId);
+      if (!collection) {
+        return null;
+      }
+      const collectionKeyStr = this.getCollectionReferenceString(
+        collection.libraryID,
+        collection.key,
+      );
+
+      const [latest] = await syllabusSnapshots.list(collectionKeyStr);
+      if (
+        latest &&
+        latest.reason === reason &&
+        Date.now() - new Date(latest.createdAt).getTime() <
+          this.SNAPSHOT_COALESCE_MS
+      ) {
+        return latest;
+      }
+
+      const assignments: SyllabusSnapshot["assignments"] = {};
+      for (const item of collection.getChildItems()) {
+        const itemAssignments =
+          this.getSavedItemSyllabusData(item)[collectionKeyStr];
+        if (itemAssignments && itemAssignments.length > 0) {
+          assignments[item.key] = cloneDeep(itemAssignments);
+        }
+      }
+      const snapshot: SyllabusSnapshot = {
+        id: `snapshot-${uuidv7()}`,
+        createdAt: new Date().toISOString(),
+        reason,
+        metadata: SettingsSyllabusMetadataSchema.parse(
+          this.getSavedCollectionMetadata(collectionKeyStr) || {},
+        ),
+        assignments,
+      };
+      await syllabusSnapshots.add(collectionKeyStr, snapshot);
+      return snapshot;
+    } catch (err) {
+      ztoolkit.log("createSnapshot: Error saving snapshot:", err);
+      return null;
+    }
+  }
+
+  static async getSnapshots(
+    collectionId: number | GetByLibraryAndKeyArgs,
+  ): Promise<SyllabusSnapshot[]> {
+    const normalized = this.normalizeCollectionIdentifier(collectionId);
+    if (!normalized) {
+      return [];
+    }
+    return syllabusSnapshots.list(
+      this.getCollectionReferenceString(normalized.libraryID, normalized.key),
+    );
+  }
+
+  static async deleteSnapshot(
+    collectionId: number | GetByLibraryAndKeyArgs,
+    snapshotId: string,
+  ): Promise<void> {
+    const normalized = this.normalizeCollectionIdentifier(collectionId);
+    if (!normalized) {
+      return;
+    }
+    await syllabusSnapshots.remove(
+      this.getCollectionReferenceString(normalized.libraryID, normalized.key),
+      snapshotId,
+    );
+  }
+
+  /**
+   * What restoring a snapshot would change, compared with the syllabus now
+   */
+  static compareSnapshot(
+    collectionId: number | GetByLibraryAndKeyArgs,
+    snapshot: SyllabusSnapshot,
+  ): SyllabusSnapshotComparison {
+    const collection = this.getCollectionFromIdentifier(collectionId);
+    if (!collection) {
+      throw new Error("compareSnapshot: Collection not found");
+    }
+    const collectionKeyStr = this.getCollectionReferenceString(
+      collection.libraryID,
+      collection.key,
+    );
+
+    const comparison: SyllabusSnapshotComparison = {
+      metadata: this.diffSyllabusMetadata(
+        SettingsSyllabusMetadataSchema.parse(
+          this.getSavedCollectionMetadata(collectionKeyStr) || {},
+        ),
+        snapshot.metadata,
+      ),
+      readings: { added: [], removed: [], changed: [] },
+      missingItems: 0,
+    };
+
+    const itemKeys = new Set<string>();
+    for (const item of collection.getChildItems()) {
+      itemKeys.add(item.key);
+      const current = this.getSavedItemSyllabusData(item)[collectionKeyStr];
+      const saved = snapshot.assignments[item.key];
+      if (isEqual(current || [], saved || [])) continue;
+      const title = item.getDisplayTitle();
+      if (!current?.length) {
+        comparison.readings.added.push(title);
+      } else if (!saved?.length) {
+        comparison.readings.removed.push(title);
+      } else {
+        comparison.readings.changed.push(title);
+      }
+    }
+    comparison.missingItems = Object.keys(snapshot.assignments).filter(
+      (itemKey) => !itemKeys.has(itemKey),
+    ).length;
+
+    return comparison;
+  }
+
+  /**
+   * Put a syllabus' metadata and assignments back to a snapshot
+   * The current state is snapshotted first, and the restore is one undoable
+   * step. Items removed from the collection since are skipped
+   */
+  static async restoreSnapshot(
+    collectionId: number | GetByLibraryAndKeyArgs,
+    snapshotId: string,
+    source: "page",
+  ): Promise<void> {
+    this.assertUnlocked(collectionId, "restoreSnapshot");
+    const collection = this.getCollectionFromIdentifier(collectionId);
+    if (!collection) {
+      throw new Error("restoreSnapshot: Collection not found");
+    }
+    const collectionKeyStr = this.getCollectionReferenceString(
+      collection.libraryID,
+      collection.key,
+    );
+    const snapshot = await syllabusSnapshots.get(collectionKeyStr, snapshotId);
+    if (!snapshot) {
+      throw new Error("restoreSnapshot: Snapshot not found");
+    }
+
+    await this.createSnapshot(collectionId, "Before restoring a snapshot");
+
+    await this.withHistoryGroup(collectionId, "Restore snapshot", async () => {
+      for (const item of collection.getChildItems()) {
+        const data = this.getSavedItemSyllabusData(item);
+        const assignments = snapshot.assignments[item.key];
+        if (isEqual(data[collectionKeyStr] || [], assignments || [])) continue;
+        if (assignments && assignments.length > 0) {
+          data[collectionKeyStr] = cloneDeep(assignments);
+        } else {
+          delete data[collectionKeyStr];
+        }
+        await this.setItemData(item, data, source);
+      }
+      await this.setCollectionMetadata(
+        collectionId,
+        { ...cloneDeep(snapshot.metadata), locked: false },
+        source,
+      );
+    });
+
+    this.onClassListUpdate();
+  }
 
   /**
    * Get collection description for a specific collection
@@ -2479,105 +3589,77 @@ export class SyllabusManager {
   }
 
   /**
-   * Get locked state for a collection
-   */
-  static getLocked(collectionId: number | GetByLibraryAndKeyArgs): boolean {
-    const metadata = this.getSyllabusMetadata(collectionId);
-    return metadata.locked || false;
-  }
-
-  /**
-   * Set locked state for a collection
+   * Get default reading statuses (used when no custom statuses are set)
    */
-  static async setLocked(
-    collectionId: number | GetByLibraryAndKeyArgs,
-    locked: boolean,
-    source: "page",
-  ): Promise<void> {
-    const syllabusMetadata = SyllabusManager.getSyllabusMetadata(collectionId);
-    syllabusMetadata.locked = locked;
-    await SyllabusManager.setCollectionMetadata(
-      collectionId,
-      syllabusMetadata,
-      source,
-    );
+  static getDefaultReadingStatuses(): ReadingStatus[] {
+    return [...DEFAULT_READING_STATUSES];
   }
 
   /**
-   * Get CSL style for a specific collection
+   * Get reading statuses for a collection (custom or default)
    */
-  static getCslStyle(
+  static getReadingStatusesForCollection(
     collectionId: number | GetByLibraryAndKeyArgs,
-  ): string | null {
+  ): ReadingStatus[] {
     const metadata = this.getSyllabusMetadata(collectionId);
-    return metadata.cslStyle || null;
+    if (metadata.statuses && metadata.statuses.length > 0) {
+      // Sort by order
+      return [...metadata.statuses].sort((a, b) => a.order - b.order);
+    }
+    return this.getDefaultReadingStatuses();
   }
 
   /**
-   * Set CSL style for a specific collection
+   * Get a reading status by id for a collection
+   * Unknown ids (e.g. from a deleted custom status) return undefined
    */
-  static async setCslStyle(
+  static getReadingStatus(
     collectionId: number | GetByLibraryAndKeyArgs,
-    cslStyle: string | null,
-    source: "page",
-  ): Promise<void> {
-    const syllabusMetadata = SyllabusManager.getSyllabusMetadata(collectionId);
-    syllabusMetadata.cslStyle = cslStyle?.trim() || null;
-    await SyllabusManager.setCollectionMetadata(
-      collectionId,
-      syllabusMetadata,
-      source,
+    status: string | null | undefined,
+  ): ReadingStatus | undefined {
+    if (!status) {
+      return undefined;
+    }
+    return this.getReadingStatusesForCollection(collectionId).find(
+      (s) => s.id === status,
     );
   }
 
-  static getClassMetadata(
+  /**
+   * Whether a status counts as finished with a reading
+   */
+  static isStatusComplete(
     collectionId: number | GetByLibraryAndKeyArgs,
-    classNumber: number,
-  ) {
-    const syllabusMetadata = SyllabusManager.getSyllabusMetadata(collectionId);
-    return syllabusMetadata.classes?.[classNumber] || {};
+    status: string | null | undefined,
+  ): boolean {
+    return this.getReadingStatus(collectionId, status)?.complete ?? false;
   }
 
   /**
-   * Get class title for a specific collection and class number
-   * Uses caching to avoid repeated preference reads
+   * Get the status used when a reading is simply ticked off
+   * ("done" if the syllabus has it, otherwise its first complete status)
    */
-  static getClassTitle(
+  static getDoneStatusId(
     collectionId: number | GetByLibraryAndKeyArgs,
-    classNumber: number,
-    includeClassNumber: boolean = false,
   ): string {
-    const classMetadata = SyllabusManager.getClassMetadata(
-      collectionId,
-      classNumber,
+    const statuses = this.getReadingStatusesForCollection(collectionId);
+    return (
+      statuses.find((s) => s.id === "done")?.id ||
+      statuses.find((s) => s.complete)?.id ||
+      "done"
     );
-    const title = classMetadata.title || "";
-    if (includeClassNumber) {
-      const singularCapitalized =
-        SyllabusManager.getNomenclatureFormatted(
-          collectionId,
-        ).singularCapitalized;
-      return `${singularCapitalized} ${classNumber}${title ? `: ${title}` : ""}`;
-    }
-    return title;
   }
 
-  static async setClassMetadata(
+  /**
+   * Set reading statuses for a specific collection
+   */
+  static async setReadingStatuses(
     collectionId: number | GetByLibraryAndKeyArgs,
-    classNumber: number,
-    metadata: Partial<SettingsClassMetadata>,
-    source: "page" | "item-pane",
+    statuses: ReadingStatus[],
+    source: "page" | "background",
   ): Promise<void> {
     const syllabusMetadata = SyllabusManager.getSyllabusMetadata(collectionId);
-    if (!syllabusMetadata.classes[classNumber]) {
-      syllabusMetadata.classes[classNumber] = SettingsClassMetadataSchema.parse(
-        {},
-      );
-    }
-    syllabusMetadata.classes[classNumber] = {
-      ...syllabusMetadata.classes[classNumber],
-      ...metadata,
-    };
+    syllabusMetadata.statuses = statuses;
     await SyllabusManager.setCollectionMetadata(
       collectionId,
       syllabusMetadata,
@@ -2586,13 +3668,325 @@ export class SyllabusManager {
   }
 
   /**
-   * Set class title for a specific collection and class number
+   * Whether a library is shared with other people (a group library),
+   * in which case reading progress is kept per user instead of on the item
    */
-  static async setClassTitle(
-    collectionId: number | GetByLibraryAndKeyArgs,
-    classNumber: number,
-    title: string | null | undefined,
-    source: "page" | "item-pane",
+  static isSharedLibrary(libraryID: number): boolean {
+    const library = Zotero.Libraries.get(libraryID);
+    return !!library && library.libraryType === "group";
+  }
+
+  /**
+   * Get the current user's reading progress for all syllabi
+   * (stored locally, so it is never shared through the item)
+   */
+  static getPersonalProgressData(): PersonalProgressData {
+    const prefKey = this.getPreferenceKey(
+      SyllabusSettingsKey.PERSONAL_PROGRESS,
+    );
+    return getCachedPref(prefKey, PersonalProgressDataSchema) || {};
+  }
+
+  /**
+   * Get the current user's state for an assignment
+   */
+  static getPersonalAssignmentState(
+    collectionId: number | GetByLibraryAndKeyArgs,
+    assignmentId: string,
+  ): PersonalAssignmentState | undefined {
+    const normalized = this.normalizeCollectionIdentifier(collectionId);
+    if (!normalized) {
+      return undefined;
+    }
+    const collectionKeyStr = this.getCollectionReferenceString(
+      normalized.libraryID,
+      normalized.key,
+    );
+    return this.getPersonalProgressData()[collectionKeyStr]?.[assignmentId];
+  }
+
+  /**
+   * Update the current user's state for an assignment
+   * Records when the status changes, like updateClassAssignment does
+   */
+  static setPersonalAssignmentState(
+    item: Zotero.Item,
+    collectionId: number | GetByLibraryAndKeyArgs,
+    assignmentId: string,
+    update: Partial<PersonalAssignmentState>,
+  ) {
+    const normalized = this.normalizeCollectionIdentifier(collectionId);
+    if (!normalized) {
+      return;
+    }
+    const collectionKeyStr = this.getCollectionReferenceString(
+      normalized.libraryID,
+      normalized.key,
+    );
+    const existing =
+      this.getPersonalProgressData()[collectionKeyStr]?.[assignmentId] || {};
+
+    const statusChanged =
+      "status" in update &&
+      (update.status || null) !==
+        (("status" in existing
+          ? existing.status
+          : this.getAllClassAssignments(item, collectionId).find(
+              (a) => a.id === assignmentId,
+            )?.status) || null);
+
+    this.setPersonalProgressEntry(collectionKeyStr, assignmentId, {
+      ...existing,
+      ...update,
+      ...(statusChanged ? { statusChangedAt: new Date().toISOString() } : {}),
+    });
+    // Let the item tree redraw the row's columns
+    Zotero.Notifier.trigger("refresh", "item", [item.id]);
+  }
+
+  /**
+   * Key of a class' entry in the personal progress data
+   * (kept alongside assignment ids, which can't clash with it)
+   */
+  static getPersonalClassKey(classNumber: number): string {
+    return `class:${classNumber}`;
+  }
+
+  static setPersonalProgressEntry(
+    collectionKeyStr: string,
+    key: string,
+    state: PersonalAssignmentState,
+  ) {
+    const prefKey = this.getPreferenceKey(
+      SyllabusSettingsKey.PERSONAL_PROGRESS,
+    );
+    const progress = this.getPersonalProgressData();
+    progress[collectionKeyStr] = {
+      ...progress[collectionKeyStr],
+      [key]: state,
+    };
+    Zotero.Prefs.set(prefKey, JSON.stringify(progress), true);
+    // Invalidate cache after setting
+    zoteroCache.invalidatePref(prefKey);
+  }
+
+  /**
+   * Overlay the current user's progress onto an item's shared assignments
+   * Returns copies; assignments without personal state fall back to the
+   * status saved on the item (e.g. from before it was shared)
+   */
+  static withPersonalState(
+    collectionId: number | GetByLibraryAndKeyArgs,
+    assignments: ItemSyllabusAssignment[],
+  ): ItemSyllabusAssignment[] {
+    return assignments.map((assignment) => {
+      const state = assignment.id
+        ? this.getPersonalAssignmentState(collectionId, assignment.id)
+        : undefined;
+      if (!state || !("status" in state)) {
+        return assignment;
+      }
+      return {
+        ...assignment,
+        status: state.status || null,
+        statusChangedAt: state.statusChangedAt || null,
+      };
+    });
+  }
+
+  /**
+   * Get locked state for a collection
+   */
+  static getLocked(collectionId: number | GetByLibraryAndKeyArgs): boolean {
+    const metadata = this.getSyllabusMetadata(collectionId);
+    return metadata.locked || false;
+  }
+  /**
+   * Fields students may still change on a locked syllabus
+   * (the lock freezes the course structure, not personal reading progress)
+   */
+  static LOCK_EXEMPT_ASSIGNMENT_FIELDS = ["status", "statusChangedAt"];
+  static LOCK_EXEMPT_CLASS_FIELDS = ["status"];
+
+  /**
+   * Throw if a collection's syllabus is locked
+   */
+  static assertUnlocked(
+    collectionId: number | GetByLibraryAndKeyArgs,
+    caller: string,
+  ) {
+    if (this.getLocked(collectionId)) {
+      throw new Error(`${caller}: This syllabus is locked`);
+    }
+  }
+
+  /**
+   * Whether two versions of a syllabus' metadata differ only in fields
+   * that may change while it is locked (the lock itself and class statuses)
+   */
+  static isLockExemptMetadataChange(
+    before: SettingsSyllabusMetadata,
+    after: SettingsSyllabusMetadata,
+  ): boolean {
+    const withoutExemptFields = (metadata: SettingsSyllabusMetadata) => {
+      const parsed = SettingsSyllabusMetadataSchema.parse(metadata);
+      return {
+        ...omit(parsed, "locked"),
+        classes: Object.fromEntries(
+          Object.entries(parsed.classes).map(([classNumber, classData]) => [
+            classNumber,
+            omit(classData, this.LOCK_EXEMPT_CLASS_FIELDS),
+          ]),
+        ),
+      };
+    };
+    return isEqual(withoutExemptFields(before), withoutExemptFields(after));
+  }
+
+  /**
+   * Throw if new item data changes anything but lock-exempt fields
+   * in the assignments of a locked syllabus
+   */
+  static assertItemDataChangeAllowed(
+    item: Zotero.Item,
+    data: ItemSyllabusData,
+    caller: string,
+  ) {
+    // Compare with the saved Extra field (the cached data may already be mutated)
+    const before = this.getSavedItemSyllabusData(item);
+
+    const withoutExemptFields = (assignments?: ItemSyllabusAssignment[]) =>
+      (assignments || []).map((assignment) =>
+        omit(assignment, this.LOCK_EXEMPT_ASSIGNMENT_FIELDS),
+      );
+
+    for (const collectionKeyStr of new Set([
+      ...Object.keys(before),
+      ...Object.keys(data),
+    ])) {
+      if (
+        isEqual(
+          withoutExemptFields(before[collectionKeyStr]),
+          withoutExemptFields(data[collectionKeyStr]),
+        )
+      ) {
+        continue;
+      }
+      const [libraryID, ...keyParts] = collectionKeyStr.split(":");
+      this.assertUnlocked(
+        [parseInt(libraryID, 10), keyParts.join(":")],
+        caller,
+      );
+    }
+  }
+
+  /**
+   * Set locked state for a collection
+   */
+  static async setLocked(
+    collectionId: number | GetByLibraryAndKeyArgs,
+    locked: boolean,
+    source: "page",
+  ): Promise<void> {
+    const syllabusMetadata = SyllabusManager.getSyllabusMetadata(collectionId);
+    syllabusMetadata.locked = locked;
+    await SyllabusManager.setCollectionMetadata(
+      collectionId,
+      syllabusMetadata,
+      source,
+    );
+  }
+
+  /**
+   * Get CSL style for a specific collection
+   */
+  static getCslStyle(
+    collectionId: number | GetByLibraryAndKeyArgs,
+  ): string | null {
+    const metadata = this.getSyllabusMetadata(collectionId);
+    return metadata.cslStyle || null;
+  }
+
+  /**
+   * Set CSL style for a specific collection
+   */
+  static async setCslStyle(
+    collectionId: number | GetByLibraryAndKeyArgs,
+    cslStyle: string | null,
+    source: "page",
+  ): Promise<void> {
+    const syllabusMetadata = SyllabusManager.getSyllabusMetadata(collectionId);
+    syllabusMetadata.cslStyle = cslStyle?.trim() || null;
+    await SyllabusManager.setCollectionMetadata(
+      collectionId,
+      syllabusMetadata,
+      source,
+    );
+  }
+
+  static getClassMetadata(
+    collectionId: number | GetByLibraryAndKeyArgs,
+    classNumber: number,
+  ) {
+    const syllabusMetadata = SyllabusManager.getSyllabusMetadata(collectionId);
+    return syllabusMetadata.classes?.[classNumber] || {};
+  }
+
+  /**
+   * Get class title for a specific collection and class number
+   * Uses caching to avoid repeated preference reads
+   */
+  static getClassTitle(
+    collectionId: number | GetByLibraryAndKeyArgs,
+    classNumber: number,
+    includeClassNumber: boolean = false,
+  ): string {
+    const classMetadata = SyllabusManager.getClassMetadata(
+      collectionId,
+      classNumber,
+    );
+    const title = classMetadata.title || "";
+    if (includeClassNumber) {
+      const singularCapitalized =
+        SyllabusManager.getNomenclatureFormatted(
+          collectionId,
+        ).singularCapitalized;
+      return `${singularCapitalized} ${classNumber}${title ? `: ${title}` : ""}`;
+    }
+    return title;
+  }
+
+  static async setClassMetadata(
+    collectionId: number | GetByLibraryAndKeyArgs,
+    classNumber: number,
+    metadata: Partial<SettingsClassMetadata>,
+    source: "page" | "item-pane",
+  ): Promise<void> {
+    const syllabusMetadata = SyllabusManager.getSyllabusMetadata(collectionId);
+    if (!syllabusMetadata.classes[classNumber]) {
+      syllabusMetadata.classes[classNumber] = SettingsClassMetadataSchema.parse(
+        {},
+      );
+    }
+    syllabusMetadata.classes[classNumber] = {
+      ...syllabusMetadata.classes[classNumber],
+      ...metadata,
+    };
+    await SyllabusManager.setCollectionMetadata(
+      collectionId,
+      syllabusMetadata,
+      source,
+    );
+  }
+
+  /**
+   * Set class title for a specific collection and class number
+   */
+  static async setClassTitle(
+    collectionId: number | GetByLibraryAndKeyArgs,
+    classNumber: number,
+    title: string | null | undefined,
+    source: "page" | "item-pane",
   ): Promise<void> {
     const classMetadata = SyllabusManager.getClassMetadata(
       collectionId,
@@ -2688,11 +4082,23 @@ export class SyllabusManager {
 
   /**
    * Get class status for a specific collection and class number
+   * In shared libraries this is the current user's own status, falling back
+   * to the one saved in the syllabus (e.g. from before it was shared)
    */
   static getClassStatus(
     collectionId: number | GetByLibraryAndKeyArgs,
     classNumber: number,
   ): ClassStatus {
+    const normalized = this.normalizeCollectionIdentifier(collectionId);
+    if (normalized && this.isSharedLibrary(normalized.libraryID)) {
+      const state = this.getPersonalAssignmentState(
+        collectionId,
+        this.getPersonalClassKey(classNumber),
+      );
+      if (state && "status" in state) {
+        return state.status === "done" ? "done" : null;
+      }
+    }
     const metadata = SyllabusManager.getClassMetadata(
       collectionId,
       classNumber,
@@ -2702,6 +4108,8 @@ export class SyllabusManager {
 
   /**
    * Set class status for a specific collection and class number
+   * In shared libraries it's kept with the user's personal progress,
+   * so marking a class done doesn't mark it done for everyone
    */
   static async setClassStatus(
     collectionId: number | GetByLibraryAndKeyArgs,
@@ -2709,6 +4117,15 @@ export class SyllabusManager {
     status: ClassStatus,
     source: "page" | "item-pane",
   ): Promise<void> {
+    const normalized = this.normalizeCollectionIdentifier(collectionId);
+    if (normalized && this.isSharedLibrary(normalized.libraryID)) {
+      this.setPersonalProgressEntry(
+        this.getCollectionReferenceString(normalized.libraryID, normalized.key),
+        this.getPersonalClassKey(classNumber),
+        { status, statusChangedAt: new Date().toISOString() },
+      );
+      return;
+    }
     const classMetadata = SyllabusManager.getClassMetadata(
       collectionId,
       classNumber,
@@ -2752,6 +4169,11 @@ export class SyllabusManager {
   ): Promise<void> {
     const syllabusMetadata = SyllabusManager.getSyllabusMetadata(collectionId);
     if (syllabusMetadata.classes[classNumber]) {
+      const { singular } = this.getNomenclatureFormatted(collectionId);
+      await this.createSnapshot(
+        collectionId,
+        `Before deleting ${singular} ${classNumber}`,
+      );
       delete syllabusMetadata.classes[classNumber];
       await SyllabusManager.setCollectionMetadata(
         collectionId,
@@ -2762,21 +4184,339 @@ export class SyllabusManager {
   }
 
   /**
-   * Get nomenclature for a collection (defaults to "class")
+   * Apply a change to the class structure of a syllabus in one go:
+   * class metadata (titles, descriptions, reading dates, reading order) and
+   * every assignment's classNumber move together. If saving any item fails,
+   * everything written so far is put back.
    */
-  static getNomenclature(
-    collectionId: number | GetByLibraryAndKeyArgs,
-  ): string {
-    const metadata = this.getSyllabusMetadata(collectionId);
-    return metadata.nomenclature || "class";
+  static async applyClassStructureChange(
+    collectionId: number,
+    change: {
+      // Name of the step in the undo history
+      label: string;
+      // New number for each existing class (null drops the class and unassigns its readings)
+      renumber: (classNumber: number) => number | null;
+      // New class for particular assignments, overriding `renumber` (used when splitting)
+      reassign?: Map<string, number>;
+      // Adjust the renumbered class metadata before it is saved
+      updateClasses?: (classes: SettingsSyllabusMetadata["classes"]) => void;
+    },
+    caller: string,
+    source: "page",
+  ): Promise<void> {
+    await this.withHistoryGroup(collectionId, change.label, async () => {
+      this.assertUnlocked(collectionId, caller);
+      const collection = this.getCollectionFromIdentifier(collectionId);
+      if (!collection) {
+        throw new Error(`${caller}: Collection not found`);
+      }
+      const collectionKeyStr = this.getCollectionReferenceString(
+        collection.libraryID,
+        collection.key,
+      );
+
+      // Renumber the class metadata
+      const previousMetadata = cloneDeep(
+        this.getSyllabusMetadata(collectionId),
+      );
+      const metadata = cloneDeep(previousMetadata);
+      const classes: SettingsSyllabusMetadata["classes"] = {};
+      for (const [classKey, classMetadata] of Object.entries(
+        previousMetadata.classes || {},
+      )) {
+        const classNumber = parseInt(classKey, 10);
+        if (isNaN(classNumber)) {
+          classes[classKey] = cloneDeep(classMetadata);
+          continue;
+        }
+        const newClassNumber = change.renumber(classNumber);
+        if (newClassNumber !== null) {
+          classes[newClassNumber] = cloneDeep(classMetadata);
+        }
+      }
+      change.updateClasses?.(classes);
+      metadata.classes = classes;
+
+      // Renumber the assignments, leaving items with nothing to change alone
+      const itemChanges: Array<{
+        item: Zotero.Item;
+        before: ItemSyllabusData;
+        after: ItemSyllabusData;
+      }> = [];
+      for (const item of collection.getChildItems()) {
+        const data = this.getItemSyllabusData(item);
+        const assignments = data?.[collectionKeyStr];
+        if (!data || !assignments || assignments.length === 0) continue;
+
+        let changed = false;
+        const newAssignments = assignments.map((assignment) => {
+          const reassigned = assignment.id
+            ? change.reassign?.get(assignment.id)
+            : undefined;
+          const newClassNumber =
+            reassigned !== undefined
+              ? reassigned
+              : assignment.classNumber !== undefined
+                ? change.renumber(assignment.classNumber)
+                : undefined;
+          const classNumber = newClassNumber ?? undefined;
+          if (classNumber === assignment.classNumber) {
+            return assignment;
+          }
+          changed = true;
+          return { ...assignment, classNumber };
+        });
+        if (changed) {
+          itemChanges.push({
+            item,
+            before: cloneDeep(data),
+            after: { ...data, [collectionKeyStr]: newAssignments },
+          });
+        }
+      }
+
+      const written: typeof itemChanges = [];
+      try {
+        for (const itemChange of itemChanges) {
+          await this.setItemData(
+            itemChange.item,
+            itemChange.after,
+            "background",
+          );
+          written.push(itemChange);
+        }
+        await this.setCollectionMetadata(collectionId, metadata, source);
+      } catch (err) {
+        ztoolkit.log(`${caller}: Rolling back class changes:`, err);
+        for (const { item, before } of written) {
+          await this.setItemData(item, before, "background");
+        }
+        await this.setCollectionMetadata(
+          collectionId,
+          previousMetadata,
+          source,
+        );
+        throw err;
+      }
+    });
+
+    this.onClassListUpdate();
   }
 
   /**
-   * Get formatted nomenclature for a collection
+   * Insert an empty class at a position, moving that class and all later
+   * ones down by one (insert before class N = insert at N, after = N + 1)
    */
-  static getNomenclatureFormatted(
-    collectionId: number | GetByLibraryAndKeyArgs,
-  ): {
+  static async insertClass(
+    collectionId: number,
+    classNumber: number,
+    source: "page",
+  ): Promise<void> {
+    const { singular } = this.getNomenclatureFormatted(collectionId);
+    await this.applyClassStructureChange(
+      collectionId,
+      {
+        label: `Insert ${singular}`,
+        renumber: (n) => (n >= classNumber ? n + 1 : n),
+        updateClasses: (classes) => {
+          classes[classNumber] = SettingsClassMetadataSchema.parse({});
+        },
+      },
+      "insertClass",
+      source,
+    );
+  }
+
+  /**
+   * Delete a class and move all later classes up by one
+   * Readings assigned to the deleted class stay in the syllabus, unassigned
+   */
+  static async deleteClassAndCloseGap(
+    collectionId: number,
+    classNumber: number,
+    source: "page",
+  ): Promise<void> {
+    const { singular } = this.getNomenclatureFormatted(collectionId);
+    await this.createSnapshot(
+      collectionId,
+      `Before deleting ${singular} ${classNumber}`,
+    );
+    await this.applyClassStructureChange(
+      collectionId,
+      {
+        label: `Delete ${singular}`,
+        renumber: (n) =>
+          n === classNumber ? null : n > classNumber ? n - 1 : n,
+      },
+      "deleteClassAndCloseGap",
+      source,
+    );
+  }
+
+  /**
+   * Swap two classes with everything assigned to them
+   */
+  static async swapClasses(
+    collectionId: number,
+    classA: number,
+    classB: number,
+    source: "page",
+  ): Promise<void> {
+    const { singular } = this.getNomenclatureFormatted(collectionId);
+    if (classA === classB) return;
+    await this.applyClassStructureChange(
+      collectionId,
+      {
+        label: `Move ${singular}`,
+        renumber: (n) => (n === classA ? classB : n === classB ? classA : n),
+      },
+      "swapClasses",
+      source,
+    );
+  }
+
+  /**
+   * Move a class to another position (drag to reorder), shifting the
+   * classes in between by one
+   */
+  static async moveClass(
+    collectionId: number,
+    fromClassNumber: number,
+    toClassNumber: number,
+    source: "page",
+  ): Promise<void> {
+    const { singular } = this.getNomenclatureFormatted(collectionId);
+    if (fromClassNumber === toClassNumber) return;
+    await this.applyClassStructureChange(
+      collectionId,
+      {
+        label: `Move ${singular}`,
+        renumber: (n) => {
+          if (n === fromClassNumber) return toClassNumber;
+          if (
+            fromClassNumber < toClassNumber &&
+            n > fromClassNumber &&
+            n <= toClassNumber
+          ) {
+            return n - 1;
+          }
+          if (
+            fromClassNumber > toClassNumber &&
+            n >= toClassNumber &&
+            n < fromClassNumber
+          ) {
+            return n + 1;
+          }
+          return n;
+        },
+      },
+      "moveClass",
+      source,
+    );
+  }
+
+  /**
+   * Merge one class into another: its readings join the target class
+   * (after the target's own in the reading order), empty title, description
+   * and reading date are filled in from it, and later classes move up by one
+   */
+  static async mergeClasses(
+    collectionId: number,
+    fromClassNumber: number,
+    intoClassNumber: number,
+    source: "page",
+  ): Promise<void> {
+    const { plural } = this.getNomenclatureFormatted(collectionId);
+    if (fromClassNumber === intoClassNumber) return;
+    // Class numbers after the merged class has been removed
+    const closeGap = (n: number) => (n > fromClassNumber ? n - 1 : n);
+    const fromMetadata = cloneDeep(
+      this.getClassMetadata(collectionId, fromClassNumber),
+    );
+    await this.applyClassStructureChange(
+      collectionId,
+      {
+        label: `Merge ${plural}`,
+        renumber: (n) =>
+          n === fromClassNumber ? closeGap(intoClassNumber) : closeGap(n),
+        updateClasses: (classes) => {
+          const target = closeGap(intoClassNumber);
+          const into = classes[target] || SettingsClassMetadataSchema.parse({});
+          classes[target] = {
+            ...into,
+            title: into.title || fromMetadata.title,
+            description:
+              [into.description, fromMetadata.description]
+                .filter(Boolean)
+                .join("\n\n") || undefined,
+            readingDate: into.readingDate || fromMetadata.readingDate,
+            itemOrder:
+              into.itemOrder?.length || fromMetadata.itemOrder?.length
+                ? [...(into.itemOrder || []), ...(fromMetadata.itemOrder || [])]
+                : undefined,
+          };
+        },
+      },
+      "mergeClasses",
+      source,
+    );
+  }
+
+  /**
+   * Split a class in two: the given assignments move to a new class right
+   * after it (keeping their reading order), and later classes move down by one
+   */
+  static async splitClass(
+    collectionId: number,
+    classNumber: number,
+    assignmentIds: string[],
+    source: "page",
+  ): Promise<void> {
+    const { singular } = this.getNomenclatureFormatted(collectionId);
+    if (assignmentIds.length === 0) {
+      throw new Error("splitClass: Choose the readings for the new class");
+    }
+    const newClassNumber = classNumber + 1;
+    await this.applyClassStructureChange(
+      collectionId,
+      {
+        label: `Split ${singular}`,
+        renumber: (n) => (n > classNumber ? n + 1 : n),
+        reassign: new Map(assignmentIds.map((id) => [id, newClassNumber])),
+        updateClasses: (classes) => {
+          const original = classes[classNumber];
+          const itemOrder = original?.itemOrder || [];
+          if (original) {
+            original.itemOrder = itemOrder.filter(
+              (id) => !assignmentIds.includes(id),
+            );
+          }
+          classes[newClassNumber] = SettingsClassMetadataSchema.parse({
+            itemOrder: itemOrder.filter((id) => assignmentIds.includes(id)),
+          });
+        },
+      },
+      "splitClass",
+      source,
+    );
+  }
+
+  /**
+   * Get nomenclature for a collection (defaults to "class")
+   */
+  static getNomenclature(
+    collectionId: number | GetByLibraryAndKeyArgs,
+  ): string {
+    const metadata = this.getSyllabusMetadata(collectionId);
+    return metadata.nomenclature || "class";
+  }
+
+  /**
+   * Get formatted nomenclature for a collection
+   */
+  static getNomenclatureFormatted(
+    collectionId: number | GetByLibraryAndKeyArgs,
+  ): {
     singular: string;
     plural: string;
     singularCapitalized: string;
@@ -3093,6 +4833,235 @@ export class SyllabusManager {
     return merged;
   }
 
+  /**
+   * Name a library in a way that holds on other machines
+   * (libraryIDs are local; feeds aren't backed up)
+   */
+  static getBackupLibrary(
+    libraryID: number,
+  ): SyllabusBackup["libraries"][string] | null {
+    const library = Zotero.Libraries.get(libraryID);
+    if (!library) {
+      return null;
+    }
+    if (library.libraryType === "user") {
+      return { type: "user" };
+    }
+    if (library.libraryType === "group") {
+      return {
+        type: "group",
+        groupID: Zotero.Groups.getGroupIDFromLibraryID(libraryID),
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Back up every syllabus: all collection metadata, the syllabus data of
+   * every item and the reader's personal progress
+   */
+  static async prepareBackup(): Promise<SyllabusBackup> {
+    const libraries: SyllabusBackup["libraries"] = {};
+    const items: Record<string, ItemSyllabusData> = {};
+    for (const library of Zotero.Libraries.getAll()) {
+      const backupLibrary = this.getBackupLibrary(library.libraryID);
+      if (!backupLibrary) continue;
+      libraries[String(library.libraryID)] = backupLibrary;
+      const libraryItems = await Zotero.Items.getAll(
+        library.libraryID,
+        true,
+        false,
+      );
+      for (const item of libraryItems) {
+        const data = this.getSavedItemSyllabusData(item);
+        if (Object.keys(data).length > 0) {
+          items[`${library.libraryID}:${item.key}`] = data;
+        }
+      }
+    }
+
+    return {
+      format: "zotero-syllabus-backup",
+      version: 1,
+      createdAt: new Date().toISOString(),
+      libraries,
+      collections: cloneDeep(this.getSettingsCollectionDictionaryData()),
+      items,
+      personalProgress: cloneDeep(this.getPersonalProgressData()),
+    };
+  }
+
+  /**
+   * Restore a backup made by prepareBackup
+   * Syllabi in the backup replace the current ones (each is snapshotted
+   * first); collections and items are found by library and key, and those
+   * that don't exist here (yet) are skipped
+   */
+  static async restoreBackup(jsonString: string): Promise<{
+    collections: number;
+    items: number;
+    missingCollections: number;
+    missingItems: number;
+    failedItems: number;
+  }> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(jsonString);
+    } catch (error) {
+      throw new Error("restoreBackup: The file is not valid JSON", {
+        cause: error,
+      });
+    }
+    const backupResult = SyllabusBackupSchema.safeParse(parsed);
+    if (!backupResult.success) {
+      ztoolkit.log("restoreBackup: Invalid backup:", backupResult.error);
+      throw new Error("restoreBackup: This is not a Zotero Syllabus backup");
+    }
+    const backup = backupResult.data;
+    const collectionsResult = SettingsCollectionDictionaryDataEntity.safeParse(
+      backup.collections,
+    );
+    if (collectionsResult.type !== "ok") {
+      ztoolkit.log(
+        "restoreBackup: Invalid collection metadata:",
+        collectionsResult.error,
+      );
+      throw new Error("restoreBackup: The backup's syllabus data is invalid");
+    }
+
+    // Backed-up libraryID -> libraryID on this machine
+    const libraryIDs = new Map<string, number>();
+    for (const [backupLibraryID, library] of Object.entries(backup.libraries)) {
+      const libraryID =
+        library.type === "user"
+          ? Zotero.Libraries.userLibraryID
+          : Zotero.Groups.getLibraryIDFromGroupID(library.groupID);
+      if (libraryID) {
+        libraryIDs.set(backupLibraryID, libraryID);
+      }
+    }
+    const remap = (keyStr: string): GetByLibraryAndKeyArgs | null => {
+      const [backupLibraryID, ...keyParts] = keyStr.split(":");
+      const libraryID = libraryIDs.get(backupLibraryID);
+      return libraryID ? [libraryID, keyParts.join(":")] : null;
+    };
+
+    const restored: Array<{
+      collection: Zotero.Collection;
+      collectionKeyStr: string;
+      metadata: SettingsSyllabusMetadata;
+    }> = [];
+    let missingCollections = 0;
+    for (const [backupKeyStr, metadata] of Object.entries(
+      collectionsResult.value as SettingsCollectionDictionaryData,
+    )) {
+      const identifier = remap(backupKeyStr);
+      const collection = identifier
+        ? Zotero.Collections.getByLibraryAndKey(...identifier)
+        : false;
+      if (!collection) {
+        missingCollections++;
+        continue;
+      }
+      restored.push({
+        collection,
+        collectionKeyStr: this.getCollectionReferenceString(
+          collection.libraryID,
+          collection.key,
+        ),
+        metadata,
+      });
+    }
+
+    for (const { collection } of restored) {
+      await this.createSnapshot(collection.id, "Before restoring from backup");
+    }
+
+    // Unlocked while the assignments are written; locks come back at the end
+    const dictionary = cloneDeep(this.getSettingsCollectionDictionaryData());
+    for (const { collectionKeyStr, metadata } of restored) {
+      dictionary[collectionKeyStr] = { ...cloneDeep(metadata), locked: false };
+    }
+    this.setSettingsCollectionDictionaryData(dictionary, "background");
+
+    let restoredItems = 0;
+    let missingItems = 0;
+    let failedItems = 0;
+    for (const [backupItemKey, rawData] of Object.entries(backup.items)) {
+      const identifier = remap(backupItemKey);
+      const item = identifier
+        ? Zotero.Items.getByLibraryAndKey(...identifier)
+        : false;
+      const dataResult = ItemSyllabusDataEntity.safeParse(rawData);
+      if (!item || dataResult.type !== "ok") {
+        missingItems++;
+        continue;
+      }
+      const data = this.getSavedItemSyllabusData(item);
+      for (const [backupCollectionKeyStr, assignments] of Object.entries(
+        dataResult.value,
+      )) {
+        const collectionIdentifier = remap(backupCollectionKeyStr);
+        if (!collectionIdentifier) continue;
+        const [libraryID, collectionKey] = collectionIdentifier;
+        data[this.getCollectionReferenceString(libraryID, collectionKey)] =
+          assignments;
+      }
+      try {
+        await this.setItemData(item, data, "background");
+        restoredItems++;
+      } catch (err) {
+        // e.g. a syllabus that's locked here but isn't in the backup
+        ztoolkit.log("restoreBackup: Error restoring item:", item.key, err);
+        failedItems++;
+      }
+    }
+
+    const lockedDictionary = cloneDeep(
+      this.getSettingsCollectionDictionaryData(),
+    );
+    for (const { collectionKeyStr, metadata } of restored) {
+      if (lockedDictionary[collectionKeyStr]) {
+        lockedDictionary[collectionKeyStr].locked = metadata.locked;
+      }
+    }
+    this.setSettingsCollectionDictionaryData(lockedDictionary, "background");
+
+    if (backup.personalProgress) {
+      const progress = cloneDeep(this.getPersonalProgressData());
+      for (const [backupKeyStr, collectionProgress] of Object.entries(
+        backup.personalProgress,
+      )) {
+        const identifier = remap(backupKeyStr);
+        if (!identifier) continue;
+        const [libraryID, collectionKey] = identifier;
+        const collectionKeyStr = this.getCollectionReferenceString(
+          libraryID,
+          collectionKey,
+        );
+        progress[collectionKeyStr] = {
+          ...progress[collectionKeyStr],
+          ...collectionProgress,
+        };
+      }
+      const prefKey = this.getPreferenceKey(
+        SyllabusSettingsKey.PERSONAL_PROGRESS,
+      );
+      Zotero.Prefs.set(prefKey, JSON.stringify(progress), true);
+      zoteroCache.invalidatePref(prefKey);
+    }
+
+    this.onClassListUpdate();
+
+    return {
+      collections: restored.length,
+      items: restoredItems,
+      missingCollections,
+      missingItems,
+      failedItems,
+    };
+  }
+
   /**
    * Prepare export data for a collection
    * Returns validated export JSON object ready for stringification
@@ -3124,6 +5093,7 @@ export class SyllabusManager {
 
     // Create export object with collection title - schema handles all transformations
     const exportData = {
+      formatVersion: EXPORT_FORMAT_VERSION,
       collectionTitle: collectionTitle || "",
       ...metadata,
       ...(rdfString ? { rdf: rdfString } : {}),
@@ -3135,159 +5105,821 @@ export class SyllabusManager {
   }
 
   /**
-   * Import syllabus metadata from a JSON string (export format)
-   * Validates against ExportSyllabusMetadataSchema, updates collection title if provided,
-   * merges metadata with existing, and saves everything
-   * If RDF data is present, imports items into the current collection
-   * Throws errors for invalid JSON or schema validation failures
+   * Get the regular items in a collection along with their assignments for it
    */
-  static async importSyllabusMetadata(
+  static getCollectionSyllabusItems(
     collectionId: number | GetByLibraryAndKeyArgs,
-    importedJsonString: string,
-    source: "page" | "background" = "page",
-  ): Promise<{
-    collectionAndLibraryKey: string;
-    syllabusData: SettingsSyllabusMetadata;
-  }> {
-    // Parse JSON
-    let parsedData: unknown;
-    try {
-      parsedData = JSON.parse(importedJsonString);
-    } catch (parseError) {
-      throw new Error(
-        `importSyllabusMetadata: The file is not valid JSON: ${parseError instanceof Error ? parseError.message : String(parseError)}`,
-      );
+  ): Array<{ zoteroItem: Zotero.Item; assignments: ItemSyllabusAssignment[] }> {
+    const collection = this.getCollectionFromIdentifier(collectionId);
+    if (!collection) {
+      return [];
     }
+    return collection
+      .getChildItems()
+      .filter((item) => item.isRegularItem())
+      .map((zoteroItem) => ({
+        zoteroItem,
+        assignments: this.getItemSyllabusDataForCollection(
+          zoteroItem,
+          collectionId,
+        ),
+      }));
+  }
 
-    // Validate against ExportSyllabusMetadataSchema (includes collectionTitle)
-    const validationResult = ExportSyllabusMetadataSchema.safeParse(parsedData);
-    if (!validationResult.success) {
-      throw new Error(
-        `importSyllabusMetadata: The file does not match the expected syllabus metadata format: ${validationResult.error.message}`,
-      );
-    }
+  /**
+   * Split a class' (already sorted) assignments into sections per priority,
+   * in priority order, followed by assignments without a priority
+   */
+  static groupAssignmentsByPriority<
+    T extends { item: Zotero.Item; assignment: ItemSyllabusAssignment },
+  >(
+    collectionId: number | GetByLibraryAndKeyArgs,
+    itemAssignments: T[],
+  ): Array<{ priority: Priority | null; itemAssignments: T[] }> {
+    const priorities = this.getPrioritiesForCollection(collectionId);
+    const sections: Array<{ priority: Priority | null; itemAssignments: T[] }> =
+      priorities.map((priority) => ({
+        priority,
+        itemAssignments: itemAssignments.filter(
+          ({ assignment }) => assignment.priority === priority.id,
+        ),
+      }));
+    sections.push({
+      priority: null,
+      itemAssignments: itemAssignments.filter(
+        ({ assignment }) =>
+          !priorities.some((p) => p.id === assignment.priority),
+      ),
+    });
+    return sections.filter((section) => section.itemAssignments.length > 0);
+  }
+
+  /**
+   * Export a syllabus as Markdown, e.g. for course websites.
+   * Walks the same class groups as the syllabus page, with citations
+   * formatted in the syllabus' CSL style.
+   */
+  static async prepareMarkdownExport(
+    collectionId: number | GetByLibraryAndKeyArgs,
+    collectionTitle: string,
+  ): Promise<string> {
+    const metadata = this.getSyllabusMetadata(collectionId);
+    const { singularCapitalized } = this.getNomenclatureFormatted(collectionId);
+    const { classGroups, furtherReadingItems } = getSyllabusClassGroups(
+      collectionId,
+      this.getCollectionSyllabusItems(collectionId),
+      metadata,
+    );
 
-    const exportData = validationResult.data;
+    const getCitation = createCitationCache(metadata.cslStyle);
 
-    // Extract metadata (without collectionTitle and rdf) for merging
-    const { collectionTitle, rdf, ...metadataData } = exportData;
+    const lines: string[] = [`# ${collectionTitle || "Syllabus"}`, ""];
 
-    // Get target collection for RDF import and title update
-    const targetCollection = this.getCollectionFromIdentifier(collectionId);
-    if (!targetCollection) {
-      throw new Error("importSyllabusMetadata: Target collection not found");
+    const subtitle = [metadata.courseCode, metadata.institution]
+      .filter(Boolean)
+      .join(" · ");
+    if (subtitle) {
+      lines.push(`**${subtitle}**`, "");
     }
-
-    // Update collection title if provided
-    if (collectionTitle) {
-      this.setCollectionTitle(targetCollection.id, collectionTitle, source);
+    if (metadata.description) {
+      lines.push(metadata.description, "");
+    }
+    if (metadata.links && metadata.links.length > 0) {
+      lines.push(...metadata.links.map((link) => `- <${link}>`), "");
     }
 
-    // Import RDF items if present
-    if (rdf) {
-      try {
-        const importedItems = await importRDF(rdf);
-        ztoolkit.log(
-          "importSyllabusMetadata: Imported RDF items:",
-          importedItems,
+    for (const group of classGroups) {
+      if (group.classNumber) {
+        const classTitle = group.syllabusMetadata?.title;
+        lines.push(
+          `## ${singularCapitalized} ${group.classNumber}${classTitle ? `: ${classTitle}` : ""}`,
+          "",
         );
+        if (group.syllabusMetadata?.readingDate) {
+          lines.push(
+            `_${formatReadingDate(group.syllabusMetadata.readingDate)}_`,
+            "",
+          );
+        }
+        if (group.syllabusMetadata?.description) {
+          lines.push(group.syllabusMetadata.description, "");
+        }
+      }
 
-        if (importedItems.length > 0) {
-          // Ensure all items have IDs (they should already be saved by the import process)
-          const itemIDs = importedItems
-            .map((item) => item.id)
-            .filter((id): id is number => id !== undefined);
-
-          if (itemIDs.length === 0) {
-            ztoolkit.log(
-              "importSyllabusMetadata: No valid item IDs found in imported items",
-            );
-          } else {
-            ztoolkit.log(
-              `importSyllabusMetadata: Adding ${itemIDs.length} items to collection`,
+      for (const section of this.groupAssignmentsByPriority(
+        collectionId,
+        group.itemAssignments,
+      )) {
+        lines.push(
+          `${group.classNumber ? "###" : "##"} ${section.priority?.name || "Other readings"}`,
+          "",
+        );
+        for (const { item, assignment } of section.itemAssignments) {
+          const pages = formatPageRanges(assignment.pageRanges);
+          lines.push(
+            `- ${await getCitation(item)}${pages ? ` — **${pages}**` : ""}`,
+          );
+          if (assignment.classInstruction) {
+            lines.push(
+              ...assignment.classInstruction
+                .split("\n")
+                .map((line) => `  > ${line}`),
             );
+          }
+        }
+        lines.push("");
+      }
+    }
 
-            // Add items to the target collectio
-            ztoolkit.log(
-              "importSyllabusMetadata: Adding items to collection:",
-              targetCollection,
-              importedItems,
-            );
-            for (const item of importedItems) {
-              item.addToCollection(targetCollection.id);
-              await item.saveTx();
-            }
+    if (furtherReadingItems.length > 0) {
+      lines.push("## Further reading", "");
+      for (const item of furtherReadingItems) {
+        lines.push(`- ${await getCitation(item)}`);
+      }
+      lines.push("");
+    }
 
-            // Wait a moment for the collection to update
-            await Zotero.Promise.delay(200);
+    return lines.join("\n");
+  }
 
-            // Verify items are in the collection
-            const collectionItemIDs = targetCollection
-              .getChildItems()
-              .filter((item) => item.isRegularItem())
-              .map((item) => item.id);
+  /**
+   * Export a syllabus as a self-contained HTML page (inline CSS, no external
+   * assets), e.g. for uploading to an LMS. Mirrors the syllabus page content
+   * and formats citations in the syllabus' CSL style.
+   */
+  static async prepareHTMLExport(
+    collectionId: number | GetByLibraryAndKeyArgs,
+    collectionTitle: string,
+    options: { includeLinks?: boolean } = {},
+  ): Promise<string> {
+    const { includeLinks = false } = options;
+    const metadata = this.getSyllabusMetadata(collectionId);
+    const { singularCapitalized } = this.getNomenclatureFormatted(collectionId);
+    const syllabusItems = this.getCollectionSyllabusItems(collectionId);
+    const { classGroups, furtherReadingItems } = getSyllabusClassGroups(
+      collectionId,
+      syllabusItems,
+      metadata,
+    );
+    const title = escapeHTML(collectionTitle || "Syllabus");
+
+    const getCitation = createCitationCache(metadata.cslStyle);
+
+    const renderLinks = (item: Zotero.Item) => {
+      if (!includeLinks) return "";
+      const links: string[] = [];
+      const doi = item.getField("DOI");
+      if (doi) {
+        const doiUrl = `https://doi.org/${doi}`;
+        links.push(
+          `<a href="${escapeHTML(doiUrl)}">doi:${escapeHTML(doi)}</a>`,
+        );
+      }
+      const url = item.getField("url");
+      if (url) {
+        links.push(`<a href="${escapeHTML(url)}">${escapeHTML(url)}</a>`);
+      }
+      return links.length > 0
+        ? `<div class="links">${links.join(" · ")}</div>`
+        : "";
+    };
 
-            const itemsInCollection = itemIDs.filter((id: number) =>
-              collectionItemIDs.includes(id),
-            );
+    const renderItem = async (
+      item: Zotero.Item,
+      assignment?: ItemSyllabusAssignment,
+    ) => {
+      const readingTime = getReadingTimeSync(item, {
+        roundUp: true,
+        pageRanges: assignment?.pageRanges,
+      });
+      const pages = formatPageRanges(assignment?.pageRanges);
+      const { color, label } = this.getPriorityDisplay(
+        collectionId,
+        assignment?.priority ?? undefined,
+      );
+      const meta = [
+        label
+          ? `<span class="priority"><span class="dot" style="background:${escapeHTML(color)}"></span>${escapeHTML(label)}</span>`
+          : "",
+        pages ? `<span class="pages">${escapeHTML(pages)}</span>` : "",
+        readingTime
+          ? `<span class="reading-time">${formatReadingTime(readingTime)}</span>`
+          : "",
+      ]
+        .filter(Boolean)
+        .join("");
+      return [
+        `<li class="item"${label ? ` style="border-left-color:${escapeHTML(color)}"` : ""}>`,
+        meta ? `<div class="meta">${meta}</div>` : "",
+        `<div class="citation">${escapeHTML(await getCitation(item))}</div>`,
+        assignment?.classInstruction
+          ? `<div class="instruction">${escapeHTML(assignment.classInstruction)}</div>`
+          : "",
+        renderLinks(item),
+        "</li>",
+      ].join("");
+    };
 
-            if (itemsInCollection.length !== itemIDs.length) {
-              ztoolkit.log(
-                `importSyllabusMetadata: Warning: Only ${itemsInCollection.length} of ${itemIDs.length} items were added to collection`,
-              );
-              ztoolkit.log(
-                `importSyllabusMetadata: Expected IDs: ${itemIDs.join(", ")}`,
-              );
-              ztoolkit.log(
-                `importSyllabusMetadata: Collection IDs: ${collectionItemIDs.join(", ")}`,
-              );
-            }
+    const body: string[] = [];
+    const subtitle = [metadata.courseCode, metadata.institution]
+      .filter(Boolean)
+      .map((part) => escapeHTML(part!))
+      .join(" · ");
+    body.push(`<h1>${title}</h1>`);
+    if (subtitle) {
+      body.push(`<p class="subtitle">${subtitle}</p>`);
+    }
+    if (metadata.description) {
+      body.push(
+        `<p class="description">${escapeHTML(metadata.description)}</p>`,
+      );
+    }
+    if (metadata.links && metadata.links.length > 0) {
+      body.push(
+        `<ul class="course-links">${metadata.links
+          .map(
+            (link) =>
+              `<li><a href="${escapeHTML(link)}">${escapeHTML(link)}</a></li>`,
+          )
+          .join("")}</ul>`,
+      );
+    }
 
-            ztoolkit.log(
-              `importSyllabusMetadata: Added ${itemsInCollection.length} items to collection`,
-            );
+    for (const group of classGroups) {
+      if (group.itemAssignments.length === 0 && !group.classNumber) continue;
+      body.push(`<section class="class">`);
+      if (group.classNumber) {
+        const classTitle = group.syllabusMetadata?.title;
+        body.push(
+          `<h2><span class="class-number">${escapeHTML(singularCapitalized)} ${group.classNumber}</span>${classTitle ? ` ${escapeHTML(classTitle)}` : ""}</h2>`,
+        );
+        if (group.syllabusMetadata?.readingDate) {
+          body.push(
+            `<p class="date">${escapeHTML(formatReadingDate(group.syllabusMetadata.readingDate))}</p>`,
+          );
+        }
+        if (group.syllabusMetadata?.description) {
+          body.push(
+            `<p class="description">${escapeHTML(group.syllabusMetadata.description)}</p>`,
+          );
+        }
+      }
+      const renderedItems: string[] = [];
+      for (const { item, assignment } of group.itemAssignments) {
+        renderedItems.push(await renderItem(item, assignment));
+      }
+      if (renderedItems.length > 0) {
+        body.push(`<ul class="items">${renderedItems.join("")}</ul>`);
+      }
+      body.push(`</section>`);
+    }
+
+    if (furtherReadingItems.length > 0) {
+      const renderedItems: string[] = [];
+      for (const item of furtherReadingItems) {
+        renderedItems.push(await renderItem(item));
+      }
+      body.push(
+        `<section class="class"><h2>Further reading</h2><ul class="items">${renderedItems.join("")}</ul></section>`,
+      );
+    }
+
+    const allItems = syllabusItems.map(({ zoteroItem }) => zoteroItem);
+    if (allItems.length > 0) {
+      const bibliography =
+        (await generateBibliographicReference(
+          allItems,
+          true,
+          metadata.cslStyle,
+        )) || "";
+      body.push(
+        `<section class="bibliography"><h2>Bibliography</h2>${bibliography
+          .split("\n")
+          .filter((line) => line.trim())
+          .map((line) => `<p>${escapeHTML(line)}</p>`)
+          .join("")}</section>`,
+      );
+    }
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif; max-width: 48rem; margin: 0 auto; padding: 2rem 1rem; color: #1f1f1f; background: #fff; line-height: 1.5; }
+  h1 { font-size: 2rem; margin: 0 0 0.25rem; }
+  h2 { font-size: 1.4rem; margin: 2.5rem 0 0.5rem; }
+  a { color: #2563eb; word-break: break-all; }
+  .subtitle, .date { color: #666; margin: 0 0 0.5rem; }
+  .description, .instruction { white-space: pre-wrap; }
+  .class-number { color: #666; text-transform: uppercase; font-size: 0.9em; margin-right: 0.25rem; }
+  .items { list-style: none; padding: 0; margin: 1rem 0; }
+  .item { border-left: 4px solid #ddd; padding: 0.25rem 0 0.25rem 0.75rem; margin-bottom: 1rem; }
+  .meta { display: flex; gap: 0.75rem; font-size: 0.85rem; color: #666; }
+  .priority { display: inline-flex; align-items: center; gap: 0.35rem; }
+  .dot { display: inline-block; width: 8px; height: 8px; border-radius: 50%; }
+  .instruction { font-style: italic; color: #444; margin-top: 0.25rem; }
+  .links { font-size: 0.85rem; margin-top: 0.25rem; }
+  .bibliography p { padding-left: 2rem; text-indent: -2rem; margin: 0 0 0.5rem; }
+</style>
+</head>
+<body>
+${body.join("\n")}
+</body>
+</html>
+`;
+  }
+
+  /**
+   * Export every assignment in a syllabus as CSV rows, for auditing in a
+   * spreadsheet. Rows follow the same order as the syllabus page.
+   */
+  static prepareCSVExport(
+    collectionId: number | GetByLibraryAndKeyArgs,
+  ): string {
+    const metadata = this.getSyllabusMetadata(collectionId);
+    const { singularCapitalized } = this.getNomenclatureFormatted(collectionId);
+    const { classGroups } = getSyllabusClassGroups(
+      collectionId,
+      this.getCollectionSyllabusItems(collectionId),
+      metadata,
+    );
+
+    const rows: Array<Array<string | number | null | undefined>> = [
+      [
+        `${singularCapitalized} number`,
+        `${singularCapitalized} title`,
+        "Reading date",
+        "Priority",
+        "Instruction",
+        "Pages",
+        "Status",
+        "Reading time (min)",
+        "Item type",
+        "Creators",
+        "Year",
+        "Title",
+        "DOI",
+        "ISBN",
+        "Item key",
+      ],
+    ];
+
+    for (const group of classGroups) {
+      for (const { item, assignment } of group.itemAssignments) {
+        const creators = item
+          .getCreators()
+          .map((creator) =>
+            [creator.lastName, creator.firstName].filter(Boolean).join(", "),
+          )
+          .join("; ");
+        const readingDate = group.syllabusMetadata?.readingDate;
+        rows.push([
+          group.classNumber,
+          group.syllabusMetadata?.title,
+          readingDate ? readingDate.slice(0, 10) : "",
+          this.getPriorityLabelForCollection(
+            collectionId,
+            assignment.priority ?? undefined,
+          ),
+          assignment.classInstruction,
+          formatPageRanges(assignment.pageRanges),
+          this.getReadingStatus(collectionId, assignment.status)?.name ||
+            assignment.status,
+          getReadingTimeSync(item, { pageRanges: assignment.pageRanges }),
+          Zotero.ItemTypes.getLocalizedString(item.itemType),
+          creators,
+          item.getField("year"),
+          item.getField("title"),
+          item.getField("DOI"),
+          item.getField("ISBN"),
+          item.key,
+        ]);
+      }
+    }
+
+    return toCSV(rows);
+  }
+
+  /**
+   * Build calendar events for every class with a reading date.
+   * UIDs are derived from the collection key and class number so that
+   * re-importing the file updates existing events rather than duplicating them.
+   */
+  static getCalendarEvents(
+    collectionId: number | GetByLibraryAndKeyArgs,
+  ): CalendarEvent[] {
+    const collection = this.getCollectionFromIdentifier(collectionId);
+    if (!collection) {
+      return [];
+    }
+
+    const metadata = this.getSyllabusMetadata(collectionId);
+    const readingsByDate = this.getReadingsByDate(collectionId);
+    const events: CalendarEvent[] = [];
+
+    for (const [classNumberStr, classMetadata] of Object.entries(
+      metadata.classes || {},
+    )) {
+      const classNumber = parseInt(classNumberStr, 10);
+      if (isNaN(classNumber) || !classMetadata.readingDate) {
+        continue;
+      }
+
+      const summary = [
+        metadata.courseCode || collection.name,
+        this.getClassTitle(collectionId, classNumber, true),
+      ].join(" — ");
+
+      const descriptionParts: string[] = [];
+      if (classMetadata.description) {
+        descriptionParts.push(classMetadata.description);
+      }
+
+      const readings =
+        readingsByDate.get(classMetadata.readingDate)?.get(classNumber) || [];
+      if (readings.length > 0) {
+        const readingLines = readings.map(({ item, assignment }) => {
+          const priority = this.getPriorityLabelForCollection(
+            collectionId,
+            assignment.priority || "",
+          );
+          const creator = item.getField("firstCreator");
+          const year = item.getField("year");
+          const byline = [creator, year ? `(${year})` : ""]
+            .filter(Boolean)
+            .join(" ");
+          const pages = formatPageRanges(assignment.pageRanges);
+          let line = `- ${priority ? `[${priority}] ` : ""}${item.getDisplayTitle()}${byline ? ` — ${byline}` : ""}${pages ? `, ${pages}` : ""}`;
+          if (assignment.classInstruction) {
+            line += `\n  ${assignment.classInstruction}`;
           }
+          return line;
+        });
+        descriptionParts.push(`Readings:\n${readingLines.join("\n")}`);
+      }
 
-          // Patch the assignment config to point to this collection.
-          for (const item of importedItems) {
-            const assignments = this.getItemSyllabusData(item);
+      events.push({
+        uid: `${collection.key}-${classNumber}@zotero-syllabus`,
+        date: classMetadata.readingDate,
+        summary,
+        description: descriptionParts.join("\n\n"),
+      });
+    }
 
-            const newAssignments = ItemSyllabusDataEntity.latestSchema.parse(
-              {},
-            );
-            if (assignments && Object.keys(assignments).length > 0) {
-              const firstKey = Object.keys(assignments)[0];
-              newAssignments[
-                this.getCollectionReferenceString(
-                  targetCollection.libraryID,
-                  targetCollection.key,
-                )
-              ] = assignments[firstKey];
-
-              // (Also remove read statuses)
-              for (const [collectionId, assignments] of Object.entries(
-                newAssignments,
-              )) {
-                for (const [index, assignment] of assignments.entries()) {
-                  newAssignments[collectionId][index].status = null;
-                }
-              }
+    return events.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Build an iCalendar (.ics) file for one or more syllabi
+   */
+  static prepareCalendarExport(
+    collectionIds: Array<number | GetByLibraryAndKeyArgs>,
+    calendarName: string,
+  ): string {
+    const events = collectionIds.flatMap((collectionId) =>
+      this.getCalendarEvents(collectionId),
+    );
+    return buildICalendar(calendarName, events);
+  }
 
-              // Save
-              this.setItemData(item, newAssignments, source);
+  /**
+   * Collections that have syllabus metadata (same set as the Reading Schedule)
+   */
+  static getSyllabusCollections(): Zotero.Collection[] {
+    const allData = this.getSettingsCollectionDictionaryData();
+    return getAllCollections().filter(
+      (collection) =>
+        !!allData[
+          this.getCollectionReferenceString(
+            collection.libraryID,
+            collection.key,
+          )
+        ],
+    );
+  }
+
+  /**
+   * Summary of every syllabus, for the /syllabus/list endpoint
+   */
+  static getSyllabusSummaries(): SyllabusSummary[] {
+    return this.getSyllabusCollections().map((collection) => {
+      const metadata = this.getSyllabusMetadata(collection.id);
+      return {
+        libraryID: collection.libraryID,
+        collectionKey: collection.key,
+        title: collection.name,
+        courseCode: metadata.courseCode || null,
+        institution: metadata.institution || null,
+        description: metadata.description || null,
+        classCount: Object.keys(metadata.classes || {}).length,
+        itemCount: this.getCollectionSyllabusItems(collection.id).length,
+      };
+    });
+  }
+
+  /**
+   * A syllabus with its classes, assignments and formatted citations,
+   * for the /syllabus/{libraryID}/{collectionKey} endpoint
+   */
+  static async getSyllabusDetail(
+    collectionId: number | GetByLibraryAndKeyArgs,
+  ): Promise<SyllabusDetail | null> {
+    const collection = this.getCollectionFromIdentifier(collectionId);
+    if (!collection) {
+      return null;
+    }
+
+    const metadata = this.getSyllabusMetadata(collectionId);
+    const { classGroups, furtherReadingItems } = getSyllabusClassGroups(
+      collectionId,
+      this.getCollectionSyllabusItems(collectionId),
+      metadata,
+    );
+
+    const getCitation = createCitationCache(metadata.cslStyle);
+    const getReading = async (item: Zotero.Item) => ({
+      itemKey: item.key,
+      title: item.getDisplayTitle(),
+      citation: await getCitation(item),
+    });
+
+    const classes: SyllabusDetail["classes"] = [];
+    for (const group of classGroups) {
+      const assignments = [];
+      for (const { item, assignment } of group.itemAssignments) {
+        assignments.push({
+          id: assignment.id,
+          ...(await getReading(item)),
+          priority: assignment.priority || null,
+          instruction: assignment.classInstruction || null,
+          pageRanges: assignment.pageRanges || [],
+          status: assignment.status || null,
+          statusChangedAt: assignment.statusChangedAt || null,
+        });
+      }
+      classes.push({
+        classNumber: group.classNumber,
+        title: group.syllabusMetadata?.title || null,
+        description: group.syllabusMetadata?.description || null,
+        readingDate: group.syllabusMetadata?.readingDate || null,
+        assignments,
+      });
+    }
+
+    const furtherReading = [];
+    for (const item of furtherReadingItems) {
+      furtherReading.push(await getReading(item));
+    }
+
+    return {
+      libraryID: collection.libraryID,
+      collectionKey: collection.key,
+      title: collection.name,
+      description: metadata.description || null,
+      institution: metadata.institution || null,
+      courseCode: metadata.courseCode || null,
+      nomenclature: this.getNomenclature(collectionId),
+      links: metadata.links || [],
+      priorities: this.getPrioritiesForCollection(collectionId),
+      statuses: this.getReadingStatusesForCollection(collectionId),
+      locked: !!metadata.locked,
+      classes,
+      furtherReading,
+    };
+  }
+
+  /**
+   * Classes with reading dates across all syllabi, sorted by date,
+   * for the /syllabus/schedule endpoint
+   * @param from - Earliest date to include (yyyy-MM-dd), inclusive
+   * @param to - Latest date to include (yyyy-MM-dd), inclusive
+   */
+  static getReadingScheduleEntries(
+    from?: string,
+    to?: string,
+  ): ReadingScheduleEntry[] {
+    const entries: ReadingScheduleEntry[] = [];
+
+    for (const collection of this.getSyllabusCollections()) {
+      const readingsByDate = this.getReadingsByDate(collection.id);
+      for (const [readingDate, classesForDate] of readingsByDate) {
+        const date = readingDate.slice(0, 10);
+        if ((from && date < from) || (to && date > to)) continue;
+
+        for (const [classNumber, itemAssignments] of classesForDate) {
+          entries.push({
+            date,
+            libraryID: collection.libraryID,
+            collectionKey: collection.key,
+            syllabusTitle: collection.name,
+            classNumber,
+            classTitle: this.getClassTitle(collection.id, classNumber) || null,
+            readings: itemAssignments.map(({ item, assignment }) => ({
+              itemKey: item.key,
+              title: item.getDisplayTitle(),
+              priority: assignment.priority || null,
+              instruction: assignment.classInstruction || null,
+              pageRanges: assignment.pageRanges || [],
+              status: assignment.status || null,
+              statusChangedAt: assignment.statusChangedAt || null,
+            })),
+          });
+        }
+      }
+    }
+
+    return entries.sort(
+      (a, b) =>
+        a.date.localeCompare(b.date) ||
+        a.syllabusTitle.localeCompare(b.syllabusTitle) ||
+        a.classNumber - b.classNumber,
+    );
+  }
+
+  /**
+   * Import a spreadsheet reading list (already parsed into rows, header row
+   * excluded) into a syllabus. Each row is matched by DOI, ISBN or title to an
+   * item already in the library, added to the collection if necessary, and
+   * given an assignment. Rows that can't be imported are reported back.
+   */
+  static async importCSVReadingList(
+    collectionId: number | GetByLibraryAndKeyArgs,
+    rows: string[][],
+    mapping: CSVColumnMapping,
+    source: "page",
+  ): Promise<CSVImportResult> {
+    const collection = this.getCollectionFromIdentifier(collectionId);
+    if (!collection) {
+      throw new Error("importCSVReadingList: Collection not found");
+    }
+    this.assertUnlocked(collectionId, "importCSVReadingList");
+    if (mapping.identifier === undefined) {
+      throw new Error(
+        "importCSVReadingList: An identifier column (DOI, ISBN or title) is required",
+      );
+    }
+
+    // The whole import is a single undoable step
+    return this.withHistoryGroup(
+      collectionId,
+      "Import reading list",
+      async () => {
+        const libraryItems = await Zotero.Items.getAll(
+          collection.libraryID,
+          true,
+          false,
+        );
+        const index = buildItemIdentifierIndex(libraryItems);
+        const priorities = this.getPrioritiesForCollection(collectionId);
+        const cell = (row: string[], column: number | undefined) =>
+          column === undefined ? "" : (row[column] || "").trim();
+
+        const result: CSVImportResult = {
+          imported: 0,
+          unmatched: [],
+          warnings: [],
+        };
+
+        for (const [rowIndex, row] of rows.entries()) {
+          // Row numbers are 1-based and account for the header row
+          const rowNumber = rowIndex + 2;
+          const identifier = cell(row, mapping.identifier);
+          if (!identifier) {
+            result.unmatched.push({
+              row: rowNumber,
+              identifier,
+              reason: "No identifier",
+            });
+            continue;
+          }
+
+          const item = matchItemByIdentifier(index, identifier);
+          if (!item) {
+            result.unmatched.push({
+              row: rowNumber,
+              identifier,
+              reason: "No matching item in library",
+            });
+            continue;
+          }
+
+          const classNumberStr = cell(row, mapping.classNumber);
+          let classNumber: number | undefined = undefined;
+          if (classNumberStr) {
+            // Accept "3", "Week 3", "Class 3" etc.
+            const parsed = classNumberSchema.safeParse(
+              parseInt(classNumberStr.replace(/^\D+/, ""), 10),
+            );
+            if (!parsed.success) {
+              result.unmatched.push({
+                row: rowNumber,
+                identifier,
+                reason: `Invalid class number "${classNumberStr}"`,
+              });
+              continue;
             }
+            classNumber = parsed.data;
           }
+
+          const priorityStr = cell(row, mapping.priority).toLowerCase();
+          const priority = priorityStr
+            ? priorities.find(
+                (p) =>
+                  p.id.toLowerCase() === priorityStr ||
+                  p.name.toLowerCase() === priorityStr,
+              )?.id
+            : undefined;
+          if (priorityStr && !priority) {
+            result.warnings.push({
+              row: rowNumber,
+              identifier,
+              reason: `Unknown priority "${cell(row, mapping.priority)}"`,
+            });
+          }
+
+          if (!item.inCollection(collection.id)) {
+            item.addToCollection(collection.id);
+          }
+          await this.addClassAssignment(
+            item,
+            collectionId,
+            classNumber,
+            {
+              ...(priority ? { priority } : {}),
+              ...(cell(row, mapping.instruction)
+                ? { classInstruction: cell(row, mapping.instruction) }
+                : {}),
+            },
+            source,
+          );
+          await item.saveTx();
+
+          const classTitle = cell(row, mapping.classTitle);
+          if (
+            classNumber !== undefined &&
+            classTitle &&
+            !this.getClassTitle(collectionId, classNumber)
+          ) {
+            await this.setClassTitle(
+              collectionId,
+              classNumber,
+              classTitle,
+              source,
+            );
+          }
+
+          result.imported++;
         }
-      } catch (error) {
-        // Log error but don't fail the entire import
-        // Metadata import should still proceed
-        ztoolkit.log(
-          "importSyllabusMetadata: Error importing RDF items (continuing with metadata import):",
-          error,
-        );
-      }
+
+        return result;
+      },
+    );
+  }
+
+  /**
+   * Parse and validate a syllabus export file
+   * Throws errors for invalid JSON or schema validation failures
+   */
+  static parseSyllabusImportFile(importedJsonString: string): {
+    collectionTitle: string | null | undefined;
+    rdf: string | undefined;
+    metadata: SettingsSyllabusMetadata;
+  } {
+    // Parse JSON
+    let parsedData: unknown;
+    try {
+      parsedData = JSON.parse(importedJsonString);
+    } catch (parseError) {
+      throw new Error(
+        `importSyllabusMetadata: The file is not valid JSON: ${parseError instanceof Error ? parseError.message : String(parseError)}`,
+      );
+    }
+
+    // Files from a newer plugin version may use fields we don't know about
+    const formatVersion = getExportSyllabusMetadataVersion(parsedData);
+    if (formatVersion !== null && formatVersion > EXPORT_FORMAT_VERSION) {
+      throw new Error(
+        `importSyllabusMetadata: This file was exported by a newer version of Zotero Syllabus (format version ${formatVersion}, this version reads up to ${EXPORT_FORMAT_VERSION}). Update the plugin to import it.`,
+      );
+    }
+
+    // Validate against the versioned export schema (includes collectionTitle),
+    // migrating files from older plugin versions to the current format
+    const validationResult = ExportSyllabusMetadataEntity.safeParse(parsedData);
+    if (validationResult.type !== "ok") {
+      const { error } = validationResult;
+      throw new Error(
+        `importSyllabusMetadata: The file does not match the expected syllabus metadata format: ${error.type === "GIVEN_VER_VALIDATION_FAIL" ? error.error.message : error.type}`,
+      );
     }
 
+    // Extract metadata (without collectionTitle and rdf) for merging
+    // (formatVersion is dropped by the settings schema below)
+    const { collectionTitle, rdf, ...metadataData } = validationResult.value;
+
     // Validate the metadata part against SettingsSyllabusMetadataSchema
     // (to ensure it's compatible with our internal format)
     const metadataValidation =
@@ -3298,29 +5930,519 @@ export class SyllabusManager {
       );
     }
 
-    // Get current metadata and merge with imported data
+    return { collectionTitle, rdf, metadata: metadataValidation.data };
+  }
+
+  /**
+   * Combine imported metadata with a collection's existing metadata
+   * "replace" keeps only the lock state, which isn't part of exports
+   */
+  static applyImportStrategy(
+    existing: SettingsSyllabusMetadata,
+    imported: SettingsSyllabusMetadata,
+    strategy: SyllabusImportStrategy,
+  ): SettingsSyllabusMetadata {
+    if (strategy === "replace") {
+      return { ...imported, locked: existing.locked };
+    }
+    return this.deepMergeMetadata(existing, imported);
+  }
+
+  /**
+   * Compare two versions of a syllabus's metadata
+   */
+  static diffSyllabusMetadata(
+    before: SettingsSyllabusMetadata,
+    after: SettingsSyllabusMetadata,
+  ): SyllabusMetadataDiff {
+    const diff: SyllabusMetadataDiff = {
+      fields: [],
+      classes: { added: [], removed: [], changed: [] },
+      priorities: { added: [], removed: [], changed: [] },
+    };
+
+    const fieldLabels: Array<[keyof SettingsSyllabusMetadata, string]> = [
+      ["description", "Description"],
+      ["institution", "Institution"],
+      ["courseCode", "Course code"],
+      ["nomenclature", "Nomenclature"],
+      ["links", "Links"],
+      ["cslStyle", "Citation style"],
+    ];
+    const asText = (value: unknown) =>
+      Array.isArray(value) ? value.join(", ") : String(value ?? "");
+    for (const [field, label] of fieldLabels) {
+      const from = asText(before[field]);
+      const to = asText(after[field]);
+      if (from !== to) {
+        diff.fields.push({ field: label, from, to });
+      }
+    }
+
+    const classFieldLabels: Array<[keyof SettingsClassMetadata, string]> = [
+      ["title", "title"],
+      ["description", "description"],
+      ["readingDate", "reading date"],
+      ["itemOrder", "reading order"],
+    ];
+    const beforeClasses = before.classes || {};
+    const afterClasses = after.classes || {};
+    const classNumbers = new Set(
+      [...Object.keys(beforeClasses), ...Object.keys(afterClasses)].map((key) =>
+        parseInt(key, 10),
+      ),
+    );
+    for (const classNumber of [...classNumbers].sort((a, b) => a - b)) {
+      const beforeClass = beforeClasses[String(classNumber)];
+      const afterClass = afterClasses[String(classNumber)];
+      if (!beforeClass) {
+        diff.classes.added.push(classNumber);
+      } else if (!afterClass) {
+        diff.classes.removed.push(classNumber);
+      } else {
+        const fields = classFieldLabels
+          .filter(
+            ([field]) =>
+              asText(beforeClass[field]) !== asText(afterClass[field]),
+          )
+          .map(([, label]) => label);
+        if (fields.length > 0) {
+          diff.classes.changed.push({ classNumber, fields });
+        }
+      }
+    }
+
+    const beforePriorities = new Map(before.priorities.map((p) => [p.id, p]));
+    const afterPriorities = new Map(after.priorities.map((p) => [p.id, p]));
+    for (const [id, priority] of afterPriorities) {
+      const previous = beforePriorities.get(id);
+      if (!previous) {
+        diff.priorities.added.push(priority.name);
+      } else if (
+        previous.name !== priority.name ||
+        (previous.color || null) !== (priority.color || null) ||
+        previous.order !== priority.order
+      ) {
+        diff.priorities.changed.push(priority.name);
+      }
+    }
+    for (const [id, priority] of beforePriorities) {
+      if (!afterPriorities.has(id)) {
+        diff.priorities.removed.push(priority.name);
+      }
+    }
+
+    return diff;
+  }
+
+  /**
+   * Dry run of importSyllabusMetadata: what each strategy would change,
+   * without modifying the collection or library
+   */
+  static async previewSyllabusImport(
+    collectionId: number | GetByLibraryAndKeyArgs,
+    importedJsonString: string,
+  ): Promise<SyllabusImportPreview> {
+    const { collectionTitle, rdf, metadata } =
+      this.parseSyllabusImportFile(importedJsonString);
+
+    const targetCollection = this.getCollectionFromIdentifier(collectionId);
+    if (!targetCollection) {
+      throw new Error("previewSyllabusImport: Target collection not found");
+    }
+
     const existingMetadata = this.getSyllabusMetadata(collectionId);
-    ztoolkit.log("importSyllabusMetadata: metadata before merge:", {
-      metadataData,
-      existingMetadata,
+    const preview: SyllabusImportPreview = {
+      collectionTitle:
+        collectionTitle && collectionTitle !== targetCollection.name
+          ? { from: targetCollection.name, to: collectionTitle }
+          : null,
+      metadata: {
+        merge: this.diffSyllabusMetadata(
+          existingMetadata,
+          this.applyImportStrategy(existingMetadata, metadata, "merge"),
+        ),
+        replace: this.diffSyllabusMetadata(
+          existingMetadata,
+          this.applyImportStrategy(existingMetadata, metadata, "replace"),
+        ),
+      },
+      items: { matched: [], created: [] },
+    };
+
+    if (rdf) {
+      try {
+        const itemsJSON = await parseRDFItems(rdf);
+        const libraryItems = await Zotero.Items.getAll(
+          targetCollection.libraryID,
+          true,
+          false,
+        );
+        const index = buildItemIdentifierIndex(libraryItems);
+        for (const itemJSON of itemsJSON) {
+          const title = itemJSON.title || "Untitled";
+          if (matchItemJSON(index, itemJSON)) {
+            preview.items.matched.push(title);
+          } else {
+            preview.items.created.push(title);
+          }
+        }
+      } catch (error) {
+        ztoolkit.log("previewSyllabusImport: Error parsing RDF items:", error);
+      }
+    }
+
+    return preview;
+  }
+
+  /**
+   * Copy a syllabus into a new sibling collection (e.g. for next term):
+   * the same items, fresh assignments with statuses reset, and the
+   * syllabus settings with reading order remapped and dates optionally shifted
+   */
+  static async duplicateSyllabus(
+    collectionId: number,
+    options: { name: string; dateShift: SyllabusDuplicateDateShift },
+    source: "page" | "background",
+  ): Promise<Zotero.Collection> {
+    const sourceCollection = this.getCollectionFromIdentifier(collectionId);
+    if (!sourceCollection) {
+      throw new Error("duplicateSyllabus: Collection not found");
+    }
+    const name = options.name.trim();
+    if (!name) {
+      throw new Error("duplicateSyllabus: The new syllabus needs a name");
+    }
+
+    const newCollection = new Zotero.Collection({
+      libraryID: sourceCollection.libraryID,
+      name,
+      parentID: sourceCollection.parentID || undefined,
     });
-    const mergedMetadata = this.deepMergeMetadata(
-      existingMetadata,
-      metadataValidation.data,
+    await newCollection.saveTx();
+
+    const sourceKey = this.getCollectionReferenceString(
+      sourceCollection.libraryID,
+      sourceCollection.key,
+    );
+    const targetKey = this.getCollectionReferenceString(
+      newCollection.libraryID,
+      newCollection.key,
     );
-    ztoolkit.log("importSyllabusMetadata: metadata after merge:", {
-      mergedMetadata,
+
+    // Old assignment ID -> new assignment ID (for the reading order)
+    const assignmentIds = new Map<string, string>();
+
+    for (const item of sourceCollection.getChildItems()) {
+      // Only readings: the copy gets a settings note of its own, and sharing
+      // the original's would sync the copy's settings back into it
+      if (!item.isRegularItem()) continue;
+      item.addToCollection(newCollection.id);
+      await item.saveTx();
+
+      const data = this.getItemSyllabusData(item);
+      const assignments = data?.[sourceKey];
+      if (!data || !assignments || assignments.length === 0) continue;
+
+      const copied = assignments.map((assignment) => {
+        const id = `assignment-${uuidv7()}`;
+        if (assignment.id) {
+          assignmentIds.set(assignment.id, id);
+        }
+        return { ...assignment, id, status: null, statusChangedAt: null };
+      });
+      await this.setItemData(
+        item,
+        { ...data, [targetKey]: copied },
+        "background",
+      );
+    }
+
+    const metadata = cloneDeep(this.getSyllabusMetadata(collectionId));
+    metadata.locked = false;
+
+    const readingDates = Object.values(metadata.classes || {})
+      .map((classMetadata) => classMetadata?.readingDate)
+      .filter((date): date is string => !!date)
+      .sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+    const shiftDays =
+      options.dateShift.type === "offset"
+        ? options.dateShift.days
+        : options.dateShift.type === "term-start" && readingDates.length > 0
+          ? getTermShiftDays(readingDates[0], options.dateShift.termStart)
+          : 0;
+
+    for (const classMetadata of Object.values(metadata.classes || {})) {
+      if (!classMetadata) continue;
+      delete classMetadata.status;
+      if (classMetadata.itemOrder) {
+        classMetadata.itemOrder = classMetadata.itemOrder
+          .map((id) => assignmentIds.get(id))
+          .filter((id): id is string => !!id);
+      }
+      if (classMetadata.readingDate && shiftDays !== 0) {
+        classMetadata.readingDate = shiftISODate(
+          classMetadata.readingDate,
+          shiftDays,
+        );
+      }
+    }
+
+    await this.setCollectionMetadata(newCollection.id, metadata, source);
+
+    return newCollection;
+  }
+
+  /**
+   * Import syllabus metadata from a JSON string (export format)
+   * Validates against ExportSyllabusMetadataSchema, updates collection title if provided,
+   * merges (or replaces) metadata with existing, and saves everything
+   * If RDF data is present, imports items into the current collection
+   * Throws errors for invalid JSON or schema validation failures
+   */
+  static async importSyllabusMetadata(
+    collectionId: number | GetByLibraryAndKeyArgs,
+    importedJsonString: string,
+    source: "page" | "background" = "page",
+    strategy: SyllabusImportStrategy = "merge",
+  ): Promise<{
+    collectionAndLibraryKey: string;
+    syllabusData: SettingsSyllabusMetadata;
+    items: { matched: number; created: number };
+  }> {
+    const { collectionTitle, rdf, metadata } =
+      this.parseSyllabusImportFile(importedJsonString);
+
+    // Get target collection for RDF import and title update
+    const targetCollection = this.getCollectionFromIdentifier(collectionId);
+    if (!targetCollection) {
+      throw new Error("importSyllabusMetadata: Target collection not found");
+    }
+    // Check up front so nothing is imported into a locked syllabus
+    this.assertUnlocked(collectionId, "importSyllabusMetadata");
+
+    await this.createSnapshot(collectionId, "Before importing a syllabus file");
+
+    // The whole import is a single undoable step
+    return this.withHistoryGroup(collectionId, "Import syllabus", async () => {
+      // Update collection title if provided
+      if (collectionTitle) {
+        this.setCollectionTitle(targetCollection.id, collectionTitle, source);
+      }
+
+      // Import RDF items if present, reusing items already in the library
+      let items = { matched: 0, created: 0 };
+      if (rdf) {
+        try {
+          items = await this.importSyllabusItems(
+            targetCollection,
+            rdf,
+            source,
+            strategy,
+          );
+        } catch (error) {
+          // Log error but don't fail the entire import
+          // Metadata import should still proceed
+          ztoolkit.log(
+            "importSyllabusMetadata: Error importing RDF items (continuing with metadata import):",
+            error,
+          );
+        }
+      }
+
+      // Get current metadata and combine it with the imported data
+      const existingMetadata = this.getSyllabusMetadata(collectionId);
+      ztoolkit.log("importSyllabusMetadata: metadata before merge:", {
+        metadata,
+        existingMetadata,
+        strategy,
+      });
+      const mergedMetadata = this.applyImportStrategy(
+        existingMetadata,
+        metadata,
+        strategy,
+      );
+      ztoolkit.log("importSyllabusMetadata: metadata after merge:", {
+        mergedMetadata,
+      });
+
+      // Save merged metadata
+      await this.setCollectionMetadata(collectionId, mergedMetadata, source);
+
+      return {
+        collectionAndLibraryKey: this.getCollectionReferenceString(
+          targetCollection.libraryID,
+          targetCollection.key,
+        ),
+        syllabusData: mergedMetadata,
+        items,
+      };
     });
+  }
 
-    // Save merged metadata
-    await this.setCollectionMetadata(collectionId, mergedMetadata, source);
+  /**
+   * Read syllabus data from the Extra field of translator item JSON
+   */
+  static getSyllabusDataFromExtra(
+    extra: string | undefined,
+  ): ItemSyllabusData | undefined {
+    const prefix = `${this.SYLLABUS_DATA_KEY}:`;
+    const line = (extra || "")
+      .split("\n")
+      .find((line) => line.startsWith(prefix));
+    if (!line) return undefined;
+    try {
+      const result = ItemSyllabusDataEntity.safeParse(
+        JSON.parse(line.slice(prefix.length).trim()),
+      );
+      return result.type === "ok" ? result.value : undefined;
+    } catch (error) {
+      ztoolkit.log("getSyllabusDataFromExtra: Invalid syllabus data:", error);
+      return undefined;
+    }
+  }
 
-    return {
-      collectionAndLibraryKey: this.getCollectionReferenceString(
-        targetCollection.libraryID,
-        targetCollection.key,
-      ),
-      syllabusData: mergedMetadata,
-    };
+  /**
+   * Merge imported assignments into an item's existing ones for a collection.
+   * An imported assignment updates the existing one with the same id, or
+   * else the first one in the same class; otherwise it is added. Existing
+   * reading statuses are kept
+   */
+  static mergeImportedAssignments(
+    existing: ItemSyllabusAssignment[],
+    imported: ItemSyllabusAssignment[],
+  ): ItemSyllabusAssignment[] {
+    const merged = existing.map((assignment) => ({ ...assignment }));
+    // Each assignment takes at most one imported one
+    const updated = new Set<ItemSyllabusAssignment>();
+    for (const assignment of imported) {
+      const match =
+        merged.find(
+          (candidate) =>
+            !updated.has(candidate) && candidate.id === assignment.id,
+        ) ||
+        merged.find(
+          (candidate) =>
+            !updated.has(candidate) &&
+            candidate.classNumber === assignment.classNumber,
+        );
+      if (match) {
+        updated.add(match);
+        Object.assign(
+          match,
+          omit(assignment, ["id", "status", "statusChangedAt"]),
+        );
+      } else {
+        merged.push(assignment);
+        updated.add(assignment);
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Import the items of a syllabus export into a collection
+   * Items already in the library (matched by DOI, ISBN, or title + creator + year)
+   * are reused and only added to the collection; the rest are created.
+   * Either way, the exported assignments are attached for the target collection
+   * (with read statuses removed). When merging, reused items keep their
+   * existing assignments, and imported ones are merged into them
+   */
+  static async importSyllabusItems(
+    targetCollection: Zotero.Collection,
+    rdf: string,
+    source: "page" | "background",
+    strategy: SyllabusImportStrategy = "merge",
+  ): Promise<{ matched: number; created: number }> {
+    // A single undoable step (part of the syllabus import's, if called from it)
+    return this.withHistoryGroup(
+      targetCollection.id,
+      "Import syllabus",
+      async () => {
+        const itemsJSON = await parseRDFItems(rdf);
+        const libraryItems = await Zotero.Items.getAll(
+          targetCollection.libraryID,
+          true,
+          false,
+        );
+        const index = buildItemIdentifierIndex(libraryItems);
+        const targetKey = this.getCollectionReferenceString(
+          targetCollection.libraryID,
+          targetCollection.key,
+        );
+
+        // The export holds one collection's assignments, under its own key
+        const getImportedAssignments = (data: ItemSyllabusData | undefined) => {
+          const firstKey = data ? Object.keys(data)[0] : undefined;
+          if (!data || !firstKey) return undefined;
+          return data[firstKey].map((assignment) => ({
+            ...assignment,
+            status: null,
+            statusChangedAt: null,
+          }));
+        };
+
+        const matched: Array<{ item: Zotero.Item; itemJSON: any }> = [];
+        const newItemsJSON: any[] = [];
+        for (const itemJSON of itemsJSON) {
+          const existingItem = matchItemJSON(index, itemJSON);
+          if (existingItem) {
+            matched.push({ item: existingItem, itemJSON });
+          } else {
+            newItemsJSON.push(itemJSON);
+          }
+        }
+
+        ztoolkit.log(
+          `importSyllabusItems: ${matched.length} items matched, ${newItemsJSON.length} to create`,
+        );
+
+        // Reuse existing items: add them to the collection and attach assignments
+        for (const { item, itemJSON } of matched) {
+          const importedAssignments = getImportedAssignments(
+            this.getSyllabusDataFromExtra(itemJSON.extra),
+          );
+          if (importedAssignments) {
+            const data = { ...(this.getItemSyllabusData(item) || {}) };
+            data[targetKey] =
+              strategy === "replace"
+                ? importedAssignments
+                : this.mergeImportedAssignments(
+                    data[targetKey] || [],
+                    importedAssignments,
+                  );
+            await this.setItemData(item, data, source);
+          }
+          if (!item.inCollection(targetCollection.id)) {
+            item.addToCollection(targetCollection.id);
+            await item.saveTx();
+          }
+        }
+
+        // Create the rest, then point their assignments at this collection
+        const createdItems =
+          newItemsJSON.length > 0
+            ? await saveRDFItems(
+                newItemsJSON,
+                targetCollection.libraryID,
+                targetCollection.id,
+              )
+            : [];
+        for (const item of createdItems) {
+          const importedAssignments = getImportedAssignments(
+            this.getItemSyllabusData(item),
+          );
+          if (importedAssignments) {
+            const newAssignments = ItemSyllabusDataEntity.latestSchema.parse(
+              {},
+            );
+            newAssignments[targetKey] = importedAssignments;
+            await this.setItemData(item, newAssignments, source);
+          }
+        }
+
+        return { matched: matched.length, created: createdItems.length };
+      },
+    );
   }
 }
@@ -8,6 +8,7 @@ import type { VersionedEntity } from "verzod";
 import { LRUCache } from "lru-cache";
 import { ItemSyllabusDataEntity, type ItemSyllabusData } from "./schemas";
 import { ExtraFieldTool } from "zotero-plugin-toolkit";
+import { wordCountIndex } from "./wordCountIndex";
 import type { GetByLibraryAndKeyArgs } from "../modules/syllabus";
 
 // ztoolkit is available as a global
@@ -78,6 +79,10 @@ class ZoteroCache {
                 this.itemCache.delete(id);
                 this.syllabusDataCache.delete(id);
               }
+              if (event === "modify" || event === "trash") {
+                // Re-check word counts of attachments whose file may have changed
+                wordCountIndex.invalidate(id);
+              }
             }
           });
         }
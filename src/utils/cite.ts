@@ -159,6 +159,32 @@ export async function generateBibliographicReference(
   return fallback ? generateFallbackBibliographicReference(item) : null;
 }
 
+/**
+ * Create a function that gets an item's reference on a single line,
+ * generating each item's reference only once (for exports that list an item
+ * under several classes). Falls back to the item's title
+ * @param styleUrl - Optional CSL style URL to use instead of the default style
+ * @returns A function from item to reference
+ */
+export function createCitationCache(styleUrl?: string | null) {
+  const citations = new Map<number, string>();
+  return async (item: Zotero.Item): Promise<string> => {
+    let citation = citations.get(item.id);
+    if (citation === undefined) {
+      const reference = await generateBibliographicReference(
+        item,
+        true,
+        styleUrl,
+      );
+      citation = (reference || item.getDisplayTitle())
+        .replace(/\s+/g, " ")
+        .trim();
+      citations.set(item.id, citation);
+    }
+    return citation;
+  };
+}
+
 export function generateFallbackBibliographicReference(
   item: Zotero.Item | Zotero.Item[],
 ): string {
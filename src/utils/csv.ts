@@ -0,0 +1,68 @@
+/**
+ * Parse CSV text (RFC 4180: quoted fields, escaped quotes, embedded newlines)
+ * into rows of cells. Blank lines are dropped.
+ */
+export function parseCSV(text: string): string[][] {
+  // Strip a UTF-8 BOM (spreadsheet apps like to add one)
+  const input = text.replace(/^\uFEFF/, "");
+  // Detect semicolon-separated files (common in European locales)
+  const firstLine = input.split(/\r?\n/, 1)[0] || "";
+  const delimiter =
+    (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length
+      ? ";"
+      : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+/**
+ * Serialise rows of cells as CSV (RFC 4180, CRLF line endings).
+ * Starts with a UTF-8 BOM so spreadsheet apps detect the encoding.
+ */
+export function toCSV(
+  rows: Array<Array<string | number | null | undefined>>,
+): string {
+  const escapeCell = (value: string | number | null | undefined) => {
+    const str = value === null || value === undefined ? "" : String(value);
+    return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+  };
+  return (
+    "\uFEFF" + rows.map((row) => row.map(escapeCell).join(",")).join("\r\n")
+  );
+}
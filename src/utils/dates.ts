@@ -7,3 +7,64 @@ export function formatReadingDate(
   const date = new Date(isoDate);
   return formatDate(date, month ? "iiii do MMM" : "iiii do");
 }
+
+export interface DateRange {
+  start: string; // yyyy-MM-dd
+  end: string; // yyyy-MM-dd (inclusive)
+}
+
+/**
+ * List the next `count` meeting dates (yyyy-MM-dd) on the given weekdays
+ * (0 = Sunday), starting from `start` and skipping excluded date ranges.
+ * Works on calendar dates in UTC so time zones and DST can't shift a day.
+ */
+export function generateMeetingDates(
+  start: string,
+  weekdays: number[],
+  excluded: DateRange[],
+  count: number,
+): string[] {
+  const dates: string[] = [];
+  const day = new Date(`${start}T00:00:00.000Z`);
+  if (isNaN(day.getTime()) || weekdays.length === 0) {
+    return dates;
+  }
+
+  // Give up after ten years rather than loop forever
+  for (let i = 0; dates.length < count && i < 3660; i++) {
+    const key = day.toISOString().split("T")[0];
+    const isExcluded = excluded.some(
+      (range) => key >= range.start && key <= range.end,
+    );
+    if (weekdays.includes(day.getUTCDay()) && !isExcluded) {
+      dates.push(key);
+    }
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+  return dates;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Move an ISO date string by a number of days (keeping its time of day)
+ */
+export function shiftISODate(isoDate: string, days: number): string {
+  return new Date(new Date(isoDate).getTime() + days * DAY_MS).toISOString();
+}
+
+/**
+ * Days to shift a schedule starting on `firstDate` so it starts in the week
+ * of `termStart` (yyyy-MM-dd), keeping every class on its weekday.
+ * Weeks start on Monday, like the Reading Schedule.
+ */
+export function getTermShiftDays(firstDate: string, termStart: string): number {
+  const mondayOf = (date: Date) =>
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) -
+    ((date.getUTCDay() + 6) % 7) * DAY_MS;
+  return Math.round(
+    (mondayOf(new Date(`${termStart}T00:00:00.000Z`)) -
+      mondayOf(new Date(firstDate))) /
+      DAY_MS,
+  );
+}
@@ -0,0 +1,91 @@
+/**
+ * A single all-day calendar event
+ */
+export interface CalendarEvent {
+  uid: string;
+  date: string; // ISO date string
+  summary: string;
+  description?: string;
+}
+
+/**
+ * Escape a TEXT value (RFC 5545 §3.3.11)
+ */
+export function escapeICalText(str: string): string {
+  return str
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Format the calendar day of an ISO date as a DATE value (yyyyMMdd),
+ * optionally a number of days later. Reading dates are stored as UTC
+ * midnight, so the day is read in UTC rather than the local time zone
+ */
+export function formatICalDate(isoDate: string, addDays = 0): string {
+  const day = new Date(`${isoDate.slice(0, 10)}T00:00:00.000Z`);
+  day.setUTCDate(day.getUTCDate() + addDays);
+  return day.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+/**
+ * Fold a content line to 75 octets (RFC 5545 §3.1)
+ */
+function foldICalLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/**
+ * Build an iCalendar (.ics) file with one all-day VEVENT per event
+ */
+export function buildICalendar(
+  calendarName: string,
+  events: CalendarEvent[],
+): string {
+  const dtstamp = new Date().toISOString().replace(/[-:]/g, "").split(".")[0];
+  const lines: string[] = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Zotero Syllabus//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeICalText(calendarName)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${dtstamp}Z`,
+      `DTSTART;VALUE=DATE:${formatICalDate(event.date)}`,
+      `DTEND;VALUE=DATE:${formatICalDate(event.date, 1)}`,
+      `SUMMARY:${escapeICalText(event.summary)}`,
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeICalText(event.description)}`);
+    }
+    lines.push("TRANSP:TRANSPARENT", "END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldICalLine).join("\r\n") + "\r\n";
+}
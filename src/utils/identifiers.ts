@@ -0,0 +1,158 @@
+/**
+ * Helpers for matching user-supplied identifiers (DOI, ISBN, title)
+ * against items in a Zotero library.
+ */
+
+type CreatorLike = { lastName?: string; name?: string };
+
+const DOI_PATTERN = /10\.\d{4,9}\/\S+/i;
+
+/**
+ * Extract and normalise a DOI (lowercase, no resolver prefix)
+ */
+export function normalizeDOI(value: string): string | null {
+  const match = value.trim().match(DOI_PATTERN);
+  return match ? match[0].replace(/[.,;]+$/, "").toLowerCase() : null;
+}
+
+/**
+ * Extract all ISBNs from a value (Zotero's ISBN field may hold several,
+ * separated by spaces), normalised to digits/X only
+ */
+export function normalizeISBNs(value: string): string[] {
+  return value
+    .split(/[\s,;]+/)
+    .map((part) => part.replace(/[^0-9Xx]/g, "").toUpperCase())
+    .filter((part) => part.length === 10 || part.length === 13);
+}
+
+/**
+ * Normalise a title for fuzzy equality: lowercase, no diacritics,
+ * no punctuation, collapsed whitespace
+ */
+export function normalizeTitle(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Key for matching items without identifiers: normalised title, first
+ * creator's last name and year (null without a title)
+ */
+export function getTitleCreatorYearKey(
+  title: string,
+  creators: CreatorLike[],
+  date: string,
+): string | null {
+  const normalizedTitle = normalizeTitle(title);
+  if (!normalizedTitle) return null;
+  const creator = creators[0];
+  const creatorName = normalizeTitle(creator?.lastName || creator?.name || "");
+  const year = date.match(/\d{4}/)?.[0] || "";
+  return `${normalizedTitle}|${creatorName}|${year}`;
+}
+
+export interface ItemIdentifierIndex {
+  byDOI: Map<string, Zotero.Item>;
+  byISBN: Map<string, Zotero.Item>;
+  byTitle: Map<string, Zotero.Item>;
+  byTitleCreatorYear: Map<string, Zotero.Item>;
+}
+
+/**
+ * Index regular items by DOI, ISBN and normalised title
+ */
+export function buildItemIdentifierIndex(
+  items: Zotero.Item[],
+): ItemIdentifierIndex {
+  const index: ItemIdentifierIndex = {
+    byDOI: new Map(),
+    byISBN: new Map(),
+    byTitle: new Map(),
+    byTitleCreatorYear: new Map(),
+  };
+  for (const item of items) {
+    if (!item.isRegularItem() || item.deleted) continue;
+    const doi = normalizeDOI(String(item.getField("DOI") || ""));
+    if (doi && !index.byDOI.has(doi)) {
+      index.byDOI.set(doi, item);
+    }
+    for (const isbn of normalizeISBNs(String(item.getField("ISBN") || ""))) {
+      if (!index.byISBN.has(isbn)) {
+        index.byISBN.set(isbn, item);
+      }
+    }
+    const title = normalizeTitle(item.getField("title") || "");
+    if (title && !index.byTitle.has(title)) {
+      index.byTitle.set(title, item);
+    }
+    const titleCreatorYear = getTitleCreatorYearKey(
+      item.getField("title") || "",
+      item.getCreators(),
+      String(item.getField("date") || ""),
+    );
+    if (titleCreatorYear && !index.byTitleCreatorYear.has(titleCreatorYear)) {
+      index.byTitleCreatorYear.set(titleCreatorYear, item);
+    }
+  }
+  return index;
+}
+
+/**
+ * Find an item matching a DOI, ISBN or title (tried in that order)
+ */
+export function matchItemByIdentifier(
+  index: ItemIdentifierIndex,
+  identifier: string,
+): Zotero.Item | undefined {
+  const doi = normalizeDOI(identifier);
+  if (doi) {
+    return index.byDOI.get(doi);
+  }
+  const isbns = normalizeISBNs(identifier);
+  if (
+    isbns.length > 0 &&
+    isbns.join("") === identifier.replace(/[^0-9Xx]/g, "").toUpperCase()
+  ) {
+    for (const isbn of isbns) {
+      const item = index.byISBN.get(isbn);
+      if (item) return item;
+    }
+  }
+  const title = normalizeTitle(identifier);
+  return title ? index.byTitle.get(title) : undefined;
+}
+
+/**
+ * Find an item matching translator item JSON (e.g. parsed from RDF),
+ * by DOI, then ISBN, then title + first creator + year
+ */
+export function matchItemJSON(
+  index: ItemIdentifierIndex,
+  itemJSON: {
+    DOI?: string;
+    ISBN?: string;
+    title?: string;
+    creators?: CreatorLike[];
+    date?: string;
+  },
+): Zotero.Item | undefined {
+  const doi = normalizeDOI(itemJSON.DOI || "");
+  if (doi && index.byDOI.has(doi)) {
+    return index.byDOI.get(doi);
+  }
+  for (const isbn of normalizeISBNs(itemJSON.ISBN || "")) {
+    const item = index.byISBN.get(isbn);
+    if (item) return item;
+  }
+  const key = getTitleCreatorYearKey(
+    itemJSON.title || "",
+    itemJSON.creators || [],
+    itemJSON.date || "",
+  );
+  return key ? index.byTitleCreatorYear.get(key) : undefined;
+}
@@ -0,0 +1,106 @@
+import { MAX_PAGE_NUMBER, type PageRange } from "./schemas";
+
+/**
+ * Parse page ranges typed by a user, e.g. "45-78, 90–95" or "12"
+ * Returns null if any part isn't a valid page or range
+ */
+export function parsePageRanges(text: string): PageRange[] | null {
+  const parts = text
+    .split(/[,;]/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+  const ranges: PageRange[] = [];
+  for (const part of parts) {
+    // Accept "pp. 45-78", "p. 12", hyphens and en/em dashes
+    const match = part
+      .replace(/^pp?\.?\s*/i, "")
+      .match(/^(\d+)(?:\s*[-–—]\s*(\d+))?$/);
+    if (!match) {
+      return null;
+    }
+    const start = parseInt(match[1], 10);
+    const end = match[2] ? parseInt(match[2], 10) : start;
+    if (start < 1 || end < start || end > MAX_PAGE_NUMBER) {
+      return null;
+    }
+    ranges.push({ start, end });
+  }
+  return ranges;
+}
+
+/**
+ * Format page ranges for display, e.g. "pp. 45–78, 90–95" or "p. 12"
+ */
+export function formatPageRanges(ranges: PageRange[] | null | undefined) {
+  if (!ranges || ranges.length === 0) {
+    return "";
+  }
+  const parts = ranges.map((range) =>
+    range.start === range.end
+      ? String(range.start)
+      : `${range.start}–${range.end}`,
+  );
+  const isSinglePage = ranges.length === 1 && ranges[0].start === ranges[0].end;
+  return `${isSinglePage ? "p." : "pp."} ${parts.join(", ")}`;
+}
+
+/**
+ * Format page ranges for editing, e.g. "45-78, 90-95"
+ */
+export function pageRangesToText(ranges: PageRange[] | null | undefined) {
+  return (ranges || [])
+    .map((range) =>
+      range.start === range.end
+        ? String(range.start)
+        : `${range.start}-${range.end}`,
+    )
+    .join(", ");
+}
+
+/**
+ * Sort ranges and merge any that overlap or touch, e.g. 1–5, 4–9, 10 → 1–10
+ */
+export function mergePageRanges(ranges: PageRange[]): PageRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: PageRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Count the pages covered by ranges (overlapping pages count once)
+ */
+export function countPagesInRanges(ranges: PageRange[]): number {
+  return mergePageRanges(ranges).reduce(
+    (pages, range) => pages + range.end - range.start + 1,
+    0,
+  );
+}
+
+/**
+ * Map printed page ranges onto PDF page indexes (0-based, inclusive), given
+ * the printed number of the PDF's first page. Pages the PDF doesn't have are
+ * left out, so ranges can't ask for more pages than there are
+ */
+export function getPDFPageIndexRanges(
+  ranges: PageRange[],
+  firstPrintedPage: number,
+  pdfPageCount: number,
+): Array<{ first: number; last: number }> {
+  const indexRanges: Array<{ first: number; last: number }> = [];
+  for (const range of mergePageRanges(ranges)) {
+    const first = Math.max(range.start - firstPrintedPage, 0);
+    const last = Math.min(range.end - firstPrintedPage, pdfPageCount - 1);
+    if (last >= first) {
+      indexRanges.push({ first, last });
+    }
+  }
+  return indexRanges;
+}
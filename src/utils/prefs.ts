@@ -11,6 +11,8 @@ export const PREFS_KEYS: (keyof PluginPrefsMap)[] = [
   "shouldColourSyllabusRows",
   "debugMode",
   "wpm",
+  "workloadThreshold",
+  "readingScheduleView",
 ];
 
 const PREFS_PREFIX = config.prefsPrefix;
@@ -1,4 +1,5 @@
 // import { GetByLibraryAndKeyArgs } from "../modules/syllabus";
+import { isSyllabusMetadataNote } from "./syncedMetadata";
 
 const RDF_EXPORT_TRANSLATOR_ID = "14763d24-8ba0-45df-8f52-b8d1108e7ac9";
 
@@ -10,7 +11,10 @@ export function getRDFStringForCollection(collection: Zotero.Collection) {
     // translator.setCollection(collection);
     // translator.translate()
     const translation = new Zotero.Translate.Export();
-    const items = collection.getChildItems();
+    // The synced settings note is exported separately as JSON metadata
+    const items = collection
+      .getChildItems()
+      .filter((item) => !isSyllabusMetadataNote(item));
     ztoolkit.log("getRDFStringForCollection: items count:", items.length);
 
     translation.setItems(items);
@@ -94,59 +98,46 @@ export function getRDFStringForCollection(collection: Zotero.Collection) {
 }
 
 /**
- * Import RDF items into the library
- * @param rdfString - The RDF XML string to import
- * @returns Promise that resolves with the imported Zotero.Item objects
+ * Parse RDF items without saving them to the library
+ * @param rdfString - The RDF XML string to parse
+ * @returns Promise that resolves with the items as translator JSON
  */
-export function importRDF(rdfString: string): Promise<Zotero.Item[]> {
-  return new Promise((resolve, reject) => {
-    try {
-      // Use Zotero's Translate API to import RDF
-      // Zotero will auto-detect RDF format from the string content
-      const translation = new Zotero.Translate.Import();
-      translation.setString(rdfString);
-      // Don't set translator - let Zotero auto-detect the format
-
-      translation.setHandler("done", (obj: any, success: boolean) => {
-        if (success) {
-          // For imports, items are available in the translation object's newItems array
-          // These are Zotero.Item objects that have been created
-          const translationObj = obj as any;
-          const newItems = translationObj.newItems || [];
-
-          if (newItems.length > 0) {
-            // Filter to only valid items
-            const validItems = newItems.filter(
-              (item: Zotero.Item) => item && item.id,
-            );
-
-            if (validItems.length > 0) {
-              ztoolkit.log(
-                `Imported ${validItems.length} items from RDF into library`,
-              );
-              resolve(validItems);
-            } else {
-              ztoolkit.log("No valid items found in imported RDF");
-              resolve([]);
-            }
-          } else {
-            ztoolkit.log("No items were imported from RDF");
-            resolve([]);
-          }
-        } else {
-          reject(new Error("RDF import failed"));
-        }
-      });
-
-      translation.setHandler("error", (obj: any, error: Error) => {
-        ztoolkit.log("RDF import error:", error);
-        reject(error);
-      });
+export async function parseRDFItems(rdfString: string): Promise<any[]> {
+  const translation = new Zotero.Translate.Import();
+  translation.setString(rdfString);
+  const translators = await translation.getTranslators();
+  if (!translators.length) {
+    throw new Error("parseRDFItems: No translator found for RDF data");
+  }
+  translation.setTranslator(translators[0]);
+  // libraryID: false returns item JSON instead of saving
+  const items = await translation.translate({
+    libraryID: false,
+    saveAttachments: false,
+  });
+  return (items || []).filter(
+    (item: any) =>
+      item && item.itemType !== "note" && item.itemType !== "attachment",
+  );
+}
 
-      translation.translate();
-    } catch (error) {
-      ztoolkit.log("Error importing RDF:", error);
-      reject(error);
-    }
+/**
+ * Save items parsed by parseRDFItems into a library and collection
+ * @returns Promise that resolves with the created Zotero.Item objects
+ */
+export async function saveRDFItems(
+  items: any[],
+  libraryID: number,
+  collectionID: number,
+): Promise<Zotero.Item[]> {
+  const ItemSaver = (Zotero.Translate as any).ItemSaver;
+  const itemSaver = new ItemSaver({
+    libraryID,
+    collections: [collectionID],
+    // Exports only carry metadata, so there are no files to save
+    attachmentMode: ItemSaver.ATTACHMENT_MODE_IGNORE,
   });
+  const savedItems: Zotero.Item[] = await itemSaver.saveItems(items);
+  ztoolkit.log(`Imported ${savedItems.length} items from RDF into library`);
+  return savedItems.filter((item) => item && item.id);
 }
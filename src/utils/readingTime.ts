@@ -1,4 +1,7 @@
 import { getPref } from "./prefs";
+import { countPagesInRanges, getPDFPageIndexRanges } from "./pageRanges";
+import { wordCountIndex } from "./wordCountIndex";
+import type { PageRange } from "./schemas";
 
 // ztoolkit is available as a global
 declare const ztoolkit: ZToolkit;
@@ -129,6 +132,69 @@ async function getWordCountForItem(item: Zotero.Item): Promise<number | null> {
   return null;
 }
 
+/**
+ * Count words on a PDF attachment's assigned pages
+ * Printed page numbers are mapped onto the PDF using the first page in the
+ * item's "pages" field (so pp. 45–78 of a chapter PDF starting at p. 40 works)
+ * @param item - Zotero item
+ * @param pageRanges - Assigned printed page ranges
+ * @returns Promise resolving to word count, or null if not available
+ */
+async function getWordCountForPages(
+  item: Zotero.Item,
+  pageRanges: PageRange[],
+): Promise<number | null> {
+  try {
+    const attachment = await item.getBestAttachment();
+    if (!attachment || !attachment.isPDFAttachment()) {
+      return null;
+    }
+    const attachmentText = await attachment.attachmentText;
+    if (!attachmentText) {
+      return null;
+    }
+    const countWords = (text: string) =>
+      text.split(/\s+/).filter((w) => w.length > 0).length;
+
+    const firstPrintedPage =
+      parseInt(String(item.getField("pages")).match(/\d+/)?.[0] || "", 10) || 1;
+
+    // Extracted text separates pages with form feeds when available
+    const pageTexts = attachmentText.split("\f");
+    if (pageTexts.length > 1) {
+      let words = 0;
+      for (const { first, last } of getPDFPageIndexRanges(
+        pageRanges,
+        firstPrintedPage,
+        pageTexts.length,
+      )) {
+        for (let index = first; index <= last; index++) {
+          words += countWords(pageTexts[index]);
+        }
+      }
+      return words > 0 ? words : null;
+    }
+
+    // Otherwise assume words are spread evenly across the PDF's pages
+    const { total } = (await Zotero.Fulltext.getPages(attachment.id)) || {};
+    if (!total) {
+      return null;
+    }
+    const pagesInRange = getPDFPageIndexRanges(
+      pageRanges,
+      firstPrintedPage,
+      total,
+    ).reduce((pages, { first, last }) => pages + last - first + 1, 0);
+    const words = Math.round(
+      (countWords(attachmentText) * pagesInRange) / total,
+    );
+    return words > 0 ? words : null;
+  } catch (error) {
+    ztoolkit.log("Error getting word count for pages:", error);
+    return null;
+  }
+}
+
 /**
  * Format reading time for display
  * @param minutes - Reading time in minutes
@@ -157,6 +223,7 @@ export function formatReadingTime(minutes: number): string {
  * Get reading time for an item using a hybrid approach:
  * 1. Try word count from PDF if available
  * 2. Fall back to page-based estimation
+ * With assigned page ranges, only those pages are counted.
  *
  * @param item - Zotero item
  * @param options - Configuration options
@@ -166,9 +233,25 @@ export async function getReadingTime(
   item: Zotero.Item,
   options: {
     roundUp?: boolean;
+    pageRanges?: PageRange[] | null;
   } = {},
 ): Promise<number | null> {
-  const { roundUp = false } = options;
+  const { roundUp = false, pageRanges } = options;
+
+  // Use the background index when it already has this item
+  const indexedWords = wordCountIndex.getWordCount(item, pageRanges);
+  if (indexedWords !== null) {
+    return estimateReadingMinutes({ words: indexedWords, roundUp });
+  }
+
+  if (pageRanges && pageRanges.length > 0) {
+    const words = await getWordCountForPages(item, pageRanges);
+    return estimateReadingMinutes({
+      words,
+      pages: countPagesInRanges(pageRanges),
+      roundUp,
+    });
+  }
 
   // Try word count from PDF first (most accurate)
   const wordCount = await getWordCountForItem(item);
@@ -193,8 +276,10 @@ export async function getReadingTime(
 }
 
 /**
- * Get reading time synchronously (uses page data only, no PDF scanning)
+ * Get reading time synchronously (uses the background word-count index and
+ * page data, no PDF scanning)
  * Useful for column data providers that need to be fast
+ * With assigned page ranges, estimates from their page count
  *
  * @param item - Zotero item
  * @param options - Configuration options
@@ -202,9 +287,23 @@ export async function getReadingTime(
  */
 export function getReadingTimeSync(
   item: Zotero.Item,
-  options: { roundUp?: boolean } = {},
+  options: { roundUp?: boolean; pageRanges?: PageRange[] | null } = {},
 ): number | null {
-  const { roundUp = false } = options;
+  const { roundUp = false, pageRanges } = options;
+
+  // Word counts from the background PDF index (most accurate)
+  const indexedWords = wordCountIndex.getWordCount(item, pageRanges);
+  if (indexedWords !== null) {
+    return estimateReadingMinutes({ words: indexedWords, roundUp });
+  }
+
+  // Only the assigned pages need reading
+  if (pageRanges && pageRanges.length > 0) {
+    return estimateReadingMinutes({
+      pages: countPagesInRanges(pageRanges),
+      roundUp,
+    });
+  }
 
   // For video, audio
   const duration = item.getField("runningTime");
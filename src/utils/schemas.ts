@@ -13,8 +13,9 @@ export const SyllabusPrioritySchema = z.string();
 
 /**
  * Assignment Status schema
+ * The id of one of the syllabus' reading statuses (see ReadingStatusSchema)
  */
-export const AssignmentStatusSchema = z.enum(["done"]).nullable();
+export const AssignmentStatusSchema = z.string().nullable();
 
 /**
  * Class Status schema
@@ -47,7 +48,36 @@ const ItemSyllabusAssignmentV2Schema = z.object({
   classNumber: classNumberSchema,
   priority: SyllabusPrioritySchema.optional().nullable(),
   classInstruction: z.string().optional().nullable(),
+  status: z.enum(["done"]).optional().nullable(),
+});
+
+/**
+ * Highest page number a range may use (no real reading goes past this)
+ */
+export const MAX_PAGE_NUMBER = 100000;
+
+/**
+ * Assigned page range (printed page numbers, inclusive)
+ * e.g. { start: 45, end: 78 } for a chapter
+ */
+export const PageRangeSchema = z
+  .object({
+    start: z.number().int().min(1).max(MAX_PAGE_NUMBER),
+    end: z.number().int().min(1).max(MAX_PAGE_NUMBER),
+  })
+  .refine((range) => range.end >= range.start, {
+    message: "Page range must end on or after its first page",
+  });
+
+/**
+ * ItemSyllabusAssignment schema
+ * Version 3: Status can be any reading status id, and records when it last changed
+ * (v2 data is still valid v3 data, so stored item data parses either way)
+ */
+const ItemSyllabusAssignmentV3Schema = ItemSyllabusAssignmentV2Schema.extend({
   status: AssignmentStatusSchema.optional().nullable(),
+  statusChangedAt: z.string().optional().nullable(), // ISO date-time string
+  pageRanges: z.array(PageRangeSchema).optional(),
 });
 
 /**
@@ -58,6 +88,15 @@ function getAssignmentVersion(data: unknown): number | null {
     return null;
   }
   const obj = data as Record<string, unknown>;
+  // Fields only v3 has: a status change time, page ranges,
+  // or a status other than v2's "done"
+  if (
+    "statusChangedAt" in obj ||
+    "pageRanges" in obj ||
+    (obj.status !== undefined && obj.status !== null && obj.status !== "done")
+  ) {
+    return 3;
+  }
   // If no version specified, check if id exists - if not, it's v1, otherwise assume v2
   if (!("id" in obj) || obj.id === undefined) {
     return 1;
@@ -70,7 +109,7 @@ function getAssignmentVersion(data: unknown): number | null {
  * Handles migration from v1 (id optional) to v2 (id required)
  */
 export const ItemSyllabusAssignmentEntity = createVersionedEntity({
-  latestVersion: 2,
+  latestVersion: 3,
   getVersion: getAssignmentVersion,
   versionMap: {
     1: defineVersion({
@@ -89,6 +128,17 @@ export const ItemSyllabusAssignmentEntity = createVersionedEntity({
         };
       },
     }),
+    3: defineVersion({
+      schema: ItemSyllabusAssignmentV3Schema,
+      initial: false,
+      up: (old: z.infer<typeof ItemSyllabusAssignmentV2Schema>) => {
+        // When a v2 status was set is unknown
+        return {
+          ...old,
+          statusChangedAt: null,
+        };
+      },
+    }),
   },
 });
 
@@ -304,6 +354,60 @@ export const DEFAULT_PRIORITIES: z.infer<typeof PrioritySchema>[] = [
   },
 ];
 
+/**
+ * Reading status schema (per-syllabus, like priorities)
+ * `complete` marks statuses that count as finished with a reading
+ */
+export const ReadingStatusSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  color: z.string().optional().nullable(), // Hex color, nullable
+  order: z.number().int(),
+  complete: z.boolean().default(false),
+});
+
+/**
+ * Default reading statuses
+ * "done" keeps the id used before statuses were customizable
+ */
+export const DEFAULT_READING_STATUSES: z.infer<typeof ReadingStatusSchema>[] = [
+  {
+    id: "not-started",
+    name: "Not started",
+    color: "#AAA",
+    order: 1,
+    complete: false,
+  },
+  {
+    id: "in-progress",
+    name: "In progress",
+    color: "#3B82F6",
+    order: 2,
+    complete: false,
+  },
+  {
+    id: "skimmed",
+    name: "Skimmed",
+    color: "#EAB308",
+    order: 3,
+    complete: true,
+  },
+  {
+    id: "done",
+    name: "Done",
+    color: "#22C55E",
+    order: 4,
+    complete: true,
+  },
+  {
+    id: "skipped",
+    name: "Skipped",
+    color: "#EF4444",
+    order: 5,
+    complete: true,
+  },
+];
+
 /**
  * Settings Class Metadata schema
  */
@@ -360,31 +464,118 @@ export const SettingsSyllabusMetadataSchema = z.object({
   classes: transformClasses(SettingsClassMetadataSchema),
   nomenclature: z.string().optional(),
   priorities: z.array(PrioritySchema).default(DEFAULT_PRIORITIES),
+  statuses: z.array(ReadingStatusSchema).optional(),
   locked: z.boolean().optional().nullable(),
   links: z.array(z.string()).optional(),
   cslStyle: z.string().optional().nullable(),
 });
 
+/**
+ * Current version of the syllabus export file format
+ * Bump this (and add a version to ExportSyllabusMetadataEntity) whenever
+ * the export format changes, so older files keep importing
+ */
+export const EXPORT_FORMAT_VERSION = 3;
+
 /**
  * Export Syllabus Metadata schema
+ * Version 1: Files exported before the format was versioned (no formatVersion)
  * Extends SettingsSyllabusMetadataSchema with:
  * - collectionTitle field added
- * - locked field excluded
+ * - locked and statuses fields excluded
  * - classes use ExportClassMetadataSchema (excludes status)
  *
  * Uses shared transform function to avoid duplication
  */
-export const ExportSyllabusMetadataSchema = SettingsSyllabusMetadataSchema.omit(
-  {
-    classes: true,
-    locked: true,
-  },
-).extend({
+const ExportSyllabusMetadataV1Schema = SettingsSyllabusMetadataSchema.omit({
+  classes: true,
+  locked: true,
+  statuses: true,
+}).extend({
   collectionTitle: z.string().optional().nullable(),
   classes: transformClasses(ExportClassMetadataSchema),
   rdf: z.string().optional(), // RDF serialized as XML string
 });
 
+/**
+ * Export Syllabus Metadata schema
+ * Version 2: Adds an explicit formatVersion
+ */
+const ExportSyllabusMetadataV2Schema = ExportSyllabusMetadataV1Schema.extend({
+  formatVersion: z.literal(2),
+});
+
+/**
+ * Export Syllabus Metadata schema
+ * Version 3: Adds the syllabus's custom reading statuses
+ */
+const ExportSyllabusMetadataV3Schema = ExportSyllabusMetadataV2Schema.extend({
+  formatVersion: z.literal(3),
+  statuses: z.array(ReadingStatusSchema).optional(),
+});
+
+/**
+ * Get version from an export file's contents
+ * Returns the declared formatVersion, which may be newer than any version known here
+ */
+export function getExportSyllabusMetadataVersion(data: unknown): number | null {
+  if (typeof data !== "object" || data === null) {
+    return null;
+  }
+  const { formatVersion } = data as Record<string, unknown>;
+
+  // Files from before formatVersion was introduced
+  if (formatVersion === undefined) {
+    return 1;
+  }
+
+  return typeof formatVersion === "number" && Number.isInteger(formatVersion)
+    ? formatVersion
+    : null;
+}
+
+/**
+ * Versioned ExportSyllabusMetadata entity
+ * Handles migration from v1 (unversioned) to v2 (formatVersion),
+ * and v2 to v3 (reading statuses)
+ */
+export const ExportSyllabusMetadataEntity = createVersionedEntity({
+  latestVersion: EXPORT_FORMAT_VERSION,
+  getVersion: getExportSyllabusMetadataVersion,
+  versionMap: {
+    1: defineVersion({
+      schema: ExportSyllabusMetadataV1Schema,
+      initial: true,
+    }),
+    2: defineVersion({
+      schema: ExportSyllabusMetadataV2Schema,
+      initial: false,
+      up: (old: z.infer<typeof ExportSyllabusMetadataV1Schema>) => {
+        return {
+          ...old,
+          formatVersion: 2 as const,
+        };
+      },
+    }),
+    3: defineVersion({
+      schema: ExportSyllabusMetadataV3Schema,
+      initial: false,
+      up: (old: z.infer<typeof ExportSyllabusMetadataV2Schema>) => {
+        return {
+          ...old,
+          formatVersion: 3 as const,
+        };
+      },
+    }),
+  },
+});
+
+/**
+ * Export Syllabus Metadata schema (for direct use, uses latest version)
+ */
+export const ExportSyllabusMetadataSchema =
+  ExportSyllabusMetadataEntity.latestSchema;
+
 /**
  * Settings Collection Dictionary Data schema
  * Version 1: Keys are numeric collection IDs as strings
@@ -505,6 +696,100 @@ export const SettingsCollectionDictionaryDataEntity = createVersionedEntity({
 export const SettingsCollectionDictionaryDataSchema =
   SettingsCollectionDictionaryDataEntity.latestSchema;
 
+/**
+ * Personal assignment state schema
+ * Progress that belongs to the reader rather than the shared item
+ * (stored locally, keyed by collection and assignment id)
+ */
+export const PersonalAssignmentStateSchema = z.object({
+  status: AssignmentStatusSchema.optional(),
+  statusChangedAt: z.string().optional().nullable(), // ISO date-time string
+  notes: z.string().optional().nullable(),
+  timeSpent: z.number().int().min(0).optional().nullable(), // Minutes
+});
+
+/**
+ * Personal progress data schema
+ * Record<"libraryID:collectionKey", Record<assignmentId | `class:${classNumber}`, PersonalAssignmentState>>
+ */
+export const PersonalProgressDataSchema = z.record(
+  z.string(),
+  z.record(z.string(), PersonalAssignmentStateSchema),
+);
+
+/**
+ * Word count index entry for a PDF attachment
+ * `mtime` is the attachment file's modification time when it was counted
+ */
+export const WordCountEntrySchema = z.object({
+  mtime: z.number(),
+  words: z.number().int().min(0),
+  pageWords: z.array(z.number().int().min(0)).optional(), // Words per PDF page, if pages could be told apart
+  totalPages: z.number().int().min(0).optional().nullable(),
+});
+
+/**
+ * Word count index file schema
+ * Record<"libraryID/attachmentKey", WordCountEntry>
+ */
+export const WordCountIndexFileSchema = z.object({
+  version: z.literal(1),
+  entries: z.record(z.string(), WordCountEntrySchema),
+});
+
+/**
+ * Copy of a syllabus taken before a destructive change
+ * Assignments are keyed by item key (items are in the collection's library)
+ */
+export const SyllabusSnapshotSchema = z.object({
+  id: z.string(),
+  createdAt: z.string(), // ISO date-time string
+  reason: z.string(),
+  metadata: SettingsSyllabusMetadataSchema,
+  assignments: z.record(
+    z.string(),
+    z.array(ItemSyllabusAssignmentEntity.latestSchema),
+  ),
+});
+
+/**
+ * Snapshot as read from disk, before its assignments are each parsed
+ * (so one bad assignment can't lose the whole snapshot)
+ */
+export const StoredSyllabusSnapshotSchema = SyllabusSnapshotSchema.extend({
+  assignments: z.record(z.string(), z.array(z.unknown())),
+});
+
+/**
+ * Snapshot file, keyed by collection (libraryID:key), newest first
+ * Snapshots are parsed one at a time, so one bad snapshot can't lose the rest
+ */
+export const SyllabusSnapshotsFileSchema = z.object({
+  version: z.literal(1),
+  snapshots: z.record(z.string(), z.array(z.unknown())),
+});
+
+/**
+ * Backup of every syllabus, for moving to a new machine or reinstalling
+ * Collections and items are keyed by libraryID:key; `libraries` says which
+ * library each (machine-specific) libraryID was, so it can be mapped back
+ */
+export const SyllabusBackupSchema = z.object({
+  format: z.literal("zotero-syllabus-backup"),
+  version: z.literal(1),
+  createdAt: z.string(), // ISO date-time string
+  libraries: z.record(
+    z.string(),
+    z.union([
+      z.object({ type: z.literal("user") }),
+      z.object({ type: z.literal("group"), groupID: z.number() }),
+    ]),
+  ),
+  collections: z.record(z.string(), z.unknown()), // Collection metadata dictionary
+  items: z.record(z.string(), z.unknown()), // Item syllabus data
+  personalProgress: PersonalProgressDataSchema.optional(),
+});
+
 /**
  * Type exports - inferred from Zod schemas
  */
@@ -513,6 +798,15 @@ export type ItemSyllabusAssignment = z.infer<
 >;
 export type ItemSyllabusData = z.infer<typeof ItemSyllabusDataSchema>;
 export type Priority = z.infer<typeof PrioritySchema>;
+export type ReadingStatus = z.infer<typeof ReadingStatusSchema>;
+export type PageRange = z.infer<typeof PageRangeSchema>;
+export type WordCountEntry = z.infer<typeof WordCountEntrySchema>;
+export type SyllabusSnapshot = z.infer<typeof SyllabusSnapshotSchema>;
+export type SyllabusBackup = z.infer<typeof SyllabusBackupSchema>;
+export type PersonalAssignmentState = z.infer<
+  typeof PersonalAssignmentStateSchema
+>;
+export type PersonalProgressData = z.infer<typeof PersonalProgressDataSchema>;
 export type SettingsClassMetadata = z.infer<typeof SettingsClassMetadataSchema>;
 export type ExportClassMetadata = z.infer<typeof ExportClassMetadataSchema>;
 export type SettingsSyllabusMetadata = z.infer<
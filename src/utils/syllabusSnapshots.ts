@@ -0,0 +1,194 @@
+/**
+ * Automatic snapshots of syllabi (metadata and assignments), taken before
+ * destructive changes so they can be compared and restored later.
+ * Kept in a JSON file in the Zotero data directory, separate from the
+ * collection metadata pref, so a bad write there can't take them with it.
+ */
+
+import {
+  ItemSyllabusAssignmentEntity,
+  StoredSyllabusSnapshotSchema,
+  SyllabusSnapshotsFileSchema,
+  type SyllabusSnapshot,
+} from "./schemas";
+
+// ztoolkit is available as a global
+declare const ztoolkit: ZToolkit;
+
+const SNAPSHOTS_FILE_NAME = "syllabus-snapshots.json";
+// Oldest snapshots of a syllabus are dropped beyond this
+const MAX_SNAPSHOTS_PER_SYLLABUS = 20;
+
+/**
+ * Parse a stored snapshot, checking its assignments one by one and
+ * dropping any that no longer parse. Snapshots are always saved in the
+ * latest assignment format, so they're read with its schema as-is
+ */
+export function parseSyllabusSnapshot(raw: unknown): SyllabusSnapshot | null {
+  const result = StoredSyllabusSnapshotSchema.safeParse(raw);
+  if (!result.success) {
+    ztoolkit.log("Ignoring invalid syllabus snapshot:", result.error);
+    return null;
+  }
+  const assignments: SyllabusSnapshot["assignments"] = {};
+  for (const [itemKey, itemAssignments] of Object.entries(
+    result.data.assignments,
+  )) {
+    assignments[itemKey] = itemAssignments.flatMap((assignment) => {
+      const parsed =
+        ItemSyllabusAssignmentEntity.latestSchema.safeParse(assignment);
+      return parsed.success ? [parsed.data] : [];
+    });
+  }
+  return { ...result.data, assignments };
+}
+
+class SyllabusSnapshotStore {
+  // Collection (libraryID:key) -> snapshots, newest first
+  private snapshots = new Map<string, SyllabusSnapshot[]>();
+  private loading: Promise<void> | null = null;
+  // Set when the file couldn't be read and couldn't be moved aside either,
+  // so it is never overwritten with an empty store
+  private readOnly = false;
+
+  // Bumped whenever snapshots change, for React stores
+  private version = 0;
+  private listeners = new Set<() => void>();
+
+  private get filePath(): string {
+    return PathUtils.join(Zotero.DataDirectory.dir, SNAPSHOTS_FILE_NAME);
+  }
+
+  private load() {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          if (!(await IOUtils.exists(this.filePath))) return;
+          const contents = await Zotero.File.getContentsAsync(this.filePath);
+          const result = SyllabusSnapshotsFileSchema.safeParse(
+            JSON.parse(String(contents)),
+          );
+          if (!result.success) {
+            throw result.error;
+          }
+          for (const [collectionKeyStr, snapshots] of Object.entries(
+            result.data.snapshots,
+          )) {
+            this.snapshots.set(
+              collectionKeyStr,
+              snapshots.flatMap((snapshot) => {
+                const parsed = parseSyllabusSnapshot(snapshot);
+                return parsed ? [parsed] : [];
+              }),
+            );
+          }
+        } catch (e) {
+          ztoolkit.log("Error loading syllabus snapshots:", e);
+          await this.moveInvalidFile();
+        }
+      })();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Keep an unreadable snapshots file next to the new one, so saving
+   * doesn't overwrite snapshots that could still be recovered by hand
+   */
+  private async moveInvalidFile() {
+    this.snapshots.clear();
+    try {
+      await IOUtils.move(
+        this.filePath,
+        PathUtils.join(
+          Zotero.DataDirectory.dir,
+          `syllabus-snapshots.invalid-${Date.now()}.json`,
+        ),
+      );
+    } catch (e) {
+      ztoolkit.log("Error moving invalid syllabus snapshots aside:", e);
+      this.readOnly = true;
+    }
+  }
+
+  /**
+   * Snapshots of a syllabus, newest first
+   */
+  async list(collectionKeyStr: string): Promise<SyllabusSnapshot[]> {
+    await this.load();
+    return this.snapshots.get(collectionKeyStr) || [];
+  }
+
+  async get(
+    collectionKeyStr: string,
+    snapshotId: string,
+  ): Promise<SyllabusSnapshot | undefined> {
+    return (await this.list(collectionKeyStr)).find(
+      (snapshot) => snapshot.id === snapshotId,
+    );
+  }
+
+  async add(collectionKeyStr: string, snapshot: SyllabusSnapshot) {
+    await this.load();
+    this.snapshots.set(
+      collectionKeyStr,
+      [snapshot, ...(this.snapshots.get(collectionKeyStr) || [])].slice(
+        0,
+        MAX_SNAPSHOTS_PER_SYLLABUS,
+      ),
+    );
+    this.notifyChange();
+    await this.save();
+  }
+
+  async remove(collectionKeyStr: string, snapshotId: string) {
+    await this.load();
+    this.snapshots.set(
+      collectionKeyStr,
+      (this.snapshots.get(collectionKeyStr) || []).filter(
+        (snapshot) => snapshot.id !== snapshotId,
+      ),
+    );
+    this.notifyChange();
+    await this.save();
+  }
+
+  /**
+   * Subscribe to snapshot changes (returns an unsubscribe fn)
+   */
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getVersion() {
+    return this.version;
+  }
+
+  private notifyChange() {
+    this.version++;
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+
+  private async save() {
+    if (this.readOnly) return;
+    try {
+      await Zotero.File.putContentsAsync(
+        this.filePath,
+        JSON.stringify({
+          version: 1,
+          snapshots: Object.fromEntries(this.snapshots),
+        }),
+      );
+    } catch (e) {
+      ztoolkit.log("Error saving syllabus snapshots:", e);
+    }
+  }
+}
+
+// Singleton instance
+export const syllabusSnapshots = new SyllabusSnapshotStore();
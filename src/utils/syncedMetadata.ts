@@ -0,0 +1,139 @@
+/**
+ * Synced storage for collection-level syllabus metadata.
+ *
+ * Each syllabus collection gets a standalone note holding its
+ * SettingsSyllabusMetadata as JSON. Notes travel through Zotero sync
+ * (including group libraries), unlike preferences which stay on one machine.
+ * The collectionMetadata preference is kept as a fast local mirror.
+ */
+
+import {
+  SettingsSyllabusMetadataSchema,
+  type SettingsSyllabusMetadata,
+} from "./schemas";
+import { escapeHTML, unescapeHTML } from "./ui";
+
+export const SYNCED_METADATA_NOTE_TITLE = "Zotero Syllabus settings";
+
+const JSON_BLOCK_PATTERN = /<pre[^>]*>([\s\S]*?)<\/pre>/i;
+
+/**
+ * Whether an item is a syllabus metadata note
+ */
+export function isSyllabusMetadataNote(item: Zotero.Item): boolean {
+  return (
+    item.isNote() &&
+    !item.deleted &&
+    item.getNoteTitle() === SYNCED_METADATA_NOTE_TITLE
+  );
+}
+
+/**
+ * Whether an item is a syllabus metadata note that has been moved to the trash
+ * (its syllabus settings were removed, possibly on another device)
+ */
+export function isTrashedSyllabusMetadataNote(item: Zotero.Item): boolean {
+  return (
+    item.isNote() &&
+    item.deleted &&
+    item.getNoteTitle() === SYNCED_METADATA_NOTE_TITLE
+  );
+}
+
+/**
+ * Find the metadata note stored inside a collection, if any
+ */
+export function findSyllabusMetadataNote(
+  collection: Zotero.Collection,
+): Zotero.Item | undefined {
+  return collection
+    .getChildItems(false, false)
+    .find((item) => isSyllabusMetadataNote(item));
+}
+
+/**
+ * Build the note HTML for a collection's metadata
+ */
+export function buildSyllabusMetadataNoteHTML(
+  metadata: SettingsSyllabusMetadata,
+): string {
+  return [
+    "<div>",
+    `<h1>${escapeHTML(SYNCED_METADATA_NOTE_TITLE)}</h1>`,
+    "<p>This note stores the syllabus settings for this collection so that they sync to your other devices and to group members. Edit them from the syllabus view rather than here.</p>",
+    `<pre>${escapeHTML(JSON.stringify(metadata, null, 2))}</pre>`,
+    "</div>",
+  ].join("\n");
+}
+
+/**
+ * Parse and validate the metadata stored in a note.
+ * Returns undefined if the note has been edited into an invalid state.
+ */
+export function parseSyllabusMetadataNote(
+  note: Zotero.Item,
+): SettingsSyllabusMetadata | undefined {
+  const match = note.getNote().match(JSON_BLOCK_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+
+  try {
+    // The note editor may convert line breaks inside <pre> into <br>
+    const jsonStr = unescapeHTML(match[1].replace(/<br\s*\/?>/gi, "\n"));
+    const result = SettingsSyllabusMetadataSchema.safeParse(
+      JSON.parse(jsonStr),
+    );
+    if (result.success) {
+      return result.data;
+    }
+    ztoolkit.log("Error validating synced syllabus metadata:", result.error);
+  } catch (e) {
+    ztoolkit.log("Error parsing synced syllabus metadata:", e, note.id);
+  }
+  return undefined;
+}
+
+/**
+ * Create or update the metadata note for a collection.
+ * Skips the save if the note already holds the same metadata.
+ */
+export async function writeSyllabusMetadataNote(
+  collection: Zotero.Collection,
+  metadata: SettingsSyllabusMetadata,
+): Promise<Zotero.Item> {
+  const html = buildSyllabusMetadataNoteHTML(metadata);
+  const existing = findSyllabusMetadataNote(collection);
+
+  if (existing) {
+    const current = parseSyllabusMetadataNote(existing);
+    if (current && JSON.stringify(current) === JSON.stringify(metadata)) {
+      return existing;
+    }
+    existing.setNote(html);
+    await existing.saveTx();
+    return existing;
+  }
+
+  const note = new Zotero.Item("note");
+  note.libraryID = collection.libraryID;
+  note.setNote(html);
+  note.addToCollection(collection.id);
+  await note.saveTx();
+  return note;
+}
+
+/**
+ * Move a collection's metadata note to the trash, so that removing its
+ * settings reaches other devices instead of the note bringing them back
+ */
+export async function trashSyllabusMetadataNote(
+  collection: Zotero.Collection,
+): Promise<void> {
+  const existing = findSyllabusMetadataNote(collection);
+  if (!existing) {
+    return;
+  }
+  existing.deleted = true;
+  await existing.saveTx();
+}
@@ -1,6 +1,10 @@
 import { h, type ComponentChildren } from "preact";
+import { config } from "../../package.json";
 import { renderComponent } from "./react";
 
+// Params of tabs with `persistParams`, by tab ID
+const PERSISTED_PARAMS_PREF = `${config.prefsPrefix}.tabParams`;
+
 /**
  * Configuration for a tab that can be created dynamically
  */
@@ -12,6 +16,7 @@ export interface TabConfig<TParams = any> {
   componentFactory: (params?: TParams) => ComponentChildren; // Preact component factory
   getTabId: (params?: TParams) => string; // Generate unique tab ID from params
   onClose?: (params?: TParams) => void; // Optional cleanup callback
+  persistParams?: boolean; // Remember params across sessions (used when the tab is opened without params)
 }
 
 /**
@@ -85,6 +90,49 @@ export class TabManager<TParams = any> {
     return allTabs;
   }
 
+  /**
+   * Get the params a tab was last given (if it remembers them)
+   */
+  private getPersistedParams(tabId: string): TParams | undefined {
+    try {
+      const stored = Zotero.Prefs.get(PERSISTED_PARAMS_PREF, true);
+      if (typeof stored !== "string" || !stored) {
+        return undefined;
+      }
+      return JSON.parse(stored)[tabId];
+    } catch (e) {
+      ztoolkit.log("TabManager: failed to read persisted params", e);
+      return undefined;
+    }
+  }
+
+  private persistParams(tabId: string, params: TParams): void {
+    try {
+      const stored = Zotero.Prefs.get(PERSISTED_PARAMS_PREF, true);
+      const all =
+        typeof stored === "string" && stored ? JSON.parse(stored) : {};
+      all[tabId] = params;
+      Zotero.Prefs.set(PERSISTED_PARAMS_PREF, JSON.stringify(all), true);
+    } catch (e) {
+      ztoolkit.log("TabManager: failed to persist params", e);
+    }
+  }
+
+  /**
+   * Update an open tab's params without re-rendering it
+   * (the component already holds the new state)
+   */
+  updateParams(params: TParams): void {
+    const tabId = this.config.getTabId(params);
+    const tab = this.getTabOfType(tabId);
+    if (tab) {
+      tab.zotero.data["params"] = params;
+    }
+    if (this.config.persistParams) {
+      this.persistParams(tabId, params);
+    }
+  }
+
   /**
    * Create a new tab
    */
@@ -210,6 +258,9 @@ export class TabManager<TParams = any> {
    * Open a tab (find/create, select, and render)
    */
   open(win: _ZoteroTypes.MainWindow, params?: TParams): void {
+    if (params === undefined && this.config.persistParams) {
+      params = this.getPersistedParams(this.config.getTabId());
+    }
     const tabData = this.findOrCreateTab(win, params);
     if (!tabData) {
       return;
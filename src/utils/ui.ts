@@ -14,6 +14,22 @@ export function escapeHTML(str: string): string {
   return str.replace(/[&<>"']/g, (m) => map[m]);
 }
 
+/**
+ * Helper to reverse escapeHTML (plus the entities Zotero's note editor emits)
+ */
+export function unescapeHTML(str: string): string {
+  const map: Record<string, string> = {
+    "&amp;": "&",
+    "&lt;": "<",
+    "&gt;": ">",
+    "&quot;": '"',
+    "&#039;": "'",
+    "&#39;": "'",
+    "&nbsp;": " ",
+  };
+  return str.replace(/&(amp|lt|gt|quot|#039|#39|nbsp);/g, (m) => map[m]);
+}
+
 /**
  * Helper to parse HTML template string into a DocumentFragment
  */
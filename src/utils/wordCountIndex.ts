@@ -0,0 +1,283 @@
+/**
+ * Background word-count index for PDF attachments of syllabus items.
+ * Counts are kept in a JSON file in the Zotero data directory, keyed by
+ * attachment and file modification time, so they survive restarts and
+ * are only recomputed when the file changes.
+ */
+
+import { getPDFPageIndexRanges } from "./pageRanges";
+import {
+  WordCountIndexFileSchema,
+  type PageRange,
+  type WordCountEntry,
+} from "./schemas";
+
+// ztoolkit is available as a global
+declare const ztoolkit: ZToolkit;
+
+const INDEX_FILE_NAME = "syllabus-word-counts.json";
+// Pause between attachments so indexing never hogs the main thread
+const THROTTLE_MS = 2000;
+// Batch writes to disk
+const SAVE_DELAY_MS = 5000;
+
+class WordCountIndex {
+  private entries = new Map<string, WordCountEntry>();
+
+  // Attachment IDs waiting to be counted (a Set keeps it free of duplicates)
+  private queue = new Set<number>();
+
+  private running = false;
+  private loaded = false;
+  private stopped = false;
+  private saveTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  // Bumped whenever a count changes, for React stores
+  private version = 0;
+  private listeners = new Set<() => void>();
+
+  private get filePath(): string {
+    return PathUtils.join(Zotero.DataDirectory.dir, INDEX_FILE_NAME);
+  }
+
+  private static getEntryKey(attachment: Zotero.Item): string {
+    return `${attachment.libraryID}/${attachment.key}`;
+  }
+
+  /**
+   * Load saved counts from disk. Call once during startup.
+   */
+  async initialize() {
+    if (this.loaded) return;
+    this.stopped = false;
+    try {
+      if (await IOUtils.exists(this.filePath)) {
+        const contents = await Zotero.File.getContentsAsync(this.filePath);
+        const result = WordCountIndexFileSchema.safeParse(
+          JSON.parse(String(contents)),
+        );
+        if (result.success) {
+          this.entries = new Map(Object.entries(result.data.entries));
+        } else {
+          ztoolkit.log("Ignoring invalid word count index:", result.error);
+        }
+      }
+    } catch (e) {
+      ztoolkit.log("Error loading word count index:", e);
+    }
+    this.loaded = true;
+    this.run();
+  }
+
+  /**
+   * Stop indexing and write pending counts to disk
+   */
+  async shutdown() {
+    this.stopped = true;
+    this.queue.clear();
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+      this.saveTimeout = null;
+      await this.save();
+    }
+    this.loaded = false;
+  }
+
+  /**
+   * Queue the PDF attachments of items for counting
+   * Attachments whose file hasn't changed since they were counted are skipped
+   */
+  enqueueItems(items: Zotero.Item[]) {
+    for (const item of items) {
+      if (!item.isRegularItem()) continue;
+      for (const attachmentID of item.getAttachments()) {
+        this.queue.add(attachmentID);
+      }
+    }
+    this.run();
+  }
+
+  /**
+   * Re-check a counted attachment after it changes (called from the
+   * ZoteroCache notifier); it is recounted if its file's modification time
+   * differs, and forgotten if it no longer exists
+   */
+  invalidate(itemID: number) {
+    const attachment = Zotero.Items.get(itemID);
+    if (!attachment || !attachment.isAttachment()) return;
+    if (!this.entries.has(WordCountIndex.getEntryKey(attachment))) return;
+    this.queue.add(itemID);
+    this.run();
+  }
+
+  /**
+   * Get the word count of an item's first counted PDF, optionally only for
+   * some printed page ranges. Returns null if nothing has been counted yet.
+   */
+  getWordCount(
+    item: Zotero.Item,
+    pageRanges?: PageRange[] | null,
+  ): number | null {
+    if (!item.isRegularItem()) return null;
+    for (const attachmentID of item.getAttachments()) {
+      const attachment = Zotero.Items.get(attachmentID);
+      if (!attachment) continue;
+      const entry = this.entries.get(WordCountIndex.getEntryKey(attachment));
+      if (!entry || entry.words === 0) continue;
+      if (!pageRanges || pageRanges.length === 0) {
+        return entry.words;
+      }
+      return WordCountIndex.countWordsInRanges(item, entry, pageRanges);
+    }
+    return null;
+  }
+
+  /**
+   * Map printed page ranges onto PDF pages, using the first page in the
+   * item's "pages" field (so pp. 45–78 of a chapter PDF starting at p. 40 works)
+   */
+  private static countWordsInRanges(
+    item: Zotero.Item,
+    entry: WordCountEntry,
+    pageRanges: PageRange[],
+  ): number | null {
+    const firstPrintedPage =
+      parseInt(String(item.getField("pages")).match(/\d+/)?.[0] || "", 10) || 1;
+    const pageWords =
+      entry.pageWords && entry.pageWords.length > 1 ? entry.pageWords : null;
+    const pageCount = pageWords ? pageWords.length : entry.totalPages || 0;
+    if (!pageCount) return null;
+
+    // Only visit PDF pages that exist, whatever the ranges say
+    let words = 0;
+    let pagesInRange = 0;
+    for (const { first, last } of getPDFPageIndexRanges(
+      pageRanges,
+      firstPrintedPage,
+      pageCount,
+    )) {
+      pagesInRange += last - first + 1;
+      if (pageWords) {
+        for (let index = first; index <= last; index++) {
+          words += pageWords[index] || 0;
+        }
+      }
+    }
+
+    // Without per-page counts, assume words are spread evenly across pages
+    if (!pageWords) {
+      words = Math.round((entry.words * pagesInRange) / pageCount);
+    }
+    return words > 0 ? words : null;
+  }
+
+  /**
+   * Subscribe to count changes (returns an unsubscribe fn)
+   */
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getVersion() {
+    return this.version;
+  }
+
+  private async run() {
+    if (this.running || !this.loaded) return;
+    this.running = true;
+    try {
+      while (!this.stopped && this.queue.size > 0) {
+        const [attachmentID] = this.queue;
+        this.queue.delete(attachmentID);
+        const counted = await this.countAttachment(attachmentID);
+        if (counted) {
+          await Zotero.Promise.delay(THROTTLE_MS);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Count an attachment's words if its file changed since the last count
+   * Returns whether any counting work was done
+   */
+  private async countAttachment(attachmentID: number): Promise<boolean> {
+    try {
+      const attachment = Zotero.Items.get(attachmentID);
+      if (!attachment || !attachment.isPDFAttachment()) return false;
+      const key = WordCountIndex.getEntryKey(attachment);
+      const mtime = await attachment.attachmentModificationTime;
+      if (!mtime || attachment.deleted) {
+        // File is gone or the attachment is in the trash
+        if (this.entries.delete(key)) {
+          this.scheduleSave();
+          this.notifyChange(attachment);
+        }
+        return false;
+      }
+      if (this.entries.get(key)?.mtime === mtime) return false;
+
+      const text = await attachment.attachmentText;
+      if (!text) return true;
+      const countWords = (value: string) =>
+        value.split(/\s+/).filter((w) => w.length > 0).length;
+      // Extracted text separates pages with form feeds when available
+      const pageTexts = text.split("\f");
+      const { total } = (await Zotero.Fulltext.getPages(attachmentID)) || {};
+
+      this.entries.set(key, {
+        mtime,
+        words: countWords(text),
+        pageWords: pageTexts.length > 1 ? pageTexts.map(countWords) : undefined,
+        totalPages: total || null,
+      });
+      this.scheduleSave();
+      this.notifyChange(attachment);
+      return true;
+    } catch (e) {
+      ztoolkit.log("Error counting words for attachment:", attachmentID, e);
+      return true;
+    }
+  }
+
+  private notifyChange(attachment: Zotero.Item) {
+    this.version++;
+    for (const listener of this.listeners) {
+      listener();
+    }
+    // Let the item tree redraw the Reading Time column
+    if (attachment.parentItemID) {
+      Zotero.Notifier.trigger("refresh", "item", [attachment.parentItemID]);
+    }
+  }
+
+  private scheduleSave() {
+    if (this.saveTimeout) return;
+    this.saveTimeout = setTimeout(() => {
+      this.saveTimeout = null;
+      this.save();
+    }, SAVE_DELAY_MS);
+  }
+
+  private async save() {
+    try {
+      await Zotero.File.putContentsAsync(
+        this.filePath,
+        JSON.stringify({
+          version: 1,
+          entries: Object.fromEntries(this.entries),
+        }),
+      );
+    } catch (e) {
+      ztoolkit.log("Error saving word count index:", e);
+    }
+  }
+}
+
+// Singleton instance
+export const wordCountIndex = new WordCountIndex();
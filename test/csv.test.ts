@@ -0,0 +1,32 @@
+import { assert } from "chai";
+import { parseCSV, toCSV } from "../src/utils/csv";
+
+describe("csv", function () {
+  it("should read back what it writes", function () {
+    const rows = [
+      ["Class", "Title", "Pages", "Notes"],
+      ["1", "Plain title", "45-78", ""],
+      ["2", 'A "quoted", title', "12", "Line one\nLine two"],
+      ["3", "Comma, semicolon; and more", "", "Ends with \r\n"],
+    ];
+    assert.deepEqual(parseCSV(toCSV(rows)), rows);
+  });
+
+  it("should write empty cells for missing values", function () {
+    assert.equal(toCSV([[1, null, undefined, "x"]]), "\uFEFF1,,,x");
+  });
+
+  it("should read semicolon-separated files", function () {
+    assert.deepEqual(parseCSV("Class;Title\n1;Intro, part 1\n"), [
+      ["Class", "Title"],
+      ["1", "Intro, part 1"],
+    ]);
+  });
+
+  it("should drop blank lines", function () {
+    assert.deepEqual(parseCSV("a,b\r\n\r\n,\r\nc,d"), [
+      ["a", "b"],
+      ["c", "d"],
+    ]);
+  });
+});
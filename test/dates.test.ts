@@ -0,0 +1,67 @@
+import { assert } from "chai";
+import {
+  formatReadingDate,
+  generateMeetingDates,
+  getTermShiftDays,
+  shiftISODate,
+} from "../src/utils/dates";
+
+describe("dates", function () {
+  it("should format reading dates", function () {
+    assert.equal(
+      formatReadingDate("2025-03-10T12:00:00.000Z"),
+      "Monday 10th Mar",
+    );
+    assert.equal(
+      formatReadingDate("2025-03-10T12:00:00.000Z", false),
+      "Monday 10th",
+    );
+  });
+
+  it("should list meeting dates on the chosen weekdays", function () {
+    // Mondays and Wednesdays from Monday 3rd March 2025
+    assert.deepEqual(generateMeetingDates("2025-03-03", [1, 3], [], 4), [
+      "2025-03-03",
+      "2025-03-05",
+      "2025-03-10",
+      "2025-03-12",
+    ]);
+  });
+
+  it("should skip excluded dates, across the DST change", function () {
+    assert.deepEqual(
+      generateMeetingDates(
+        "2025-03-24",
+        [1],
+        [{ start: "2025-03-31", end: "2025-04-06" }],
+        3,
+      ),
+      ["2025-03-24", "2025-04-07", "2025-04-14"],
+    );
+  });
+
+  it("should give no dates without weekdays or a valid start", function () {
+    assert.deepEqual(generateMeetingDates("2025-03-03", [], [], 4), []);
+    assert.deepEqual(generateMeetingDates("not a date", [1], [], 4), []);
+  });
+
+  it("should shift dates by whole days", function () {
+    assert.equal(
+      shiftISODate("2025-03-10T00:00:00.000Z", 7),
+      "2025-03-17T00:00:00.000Z",
+    );
+    assert.equal(
+      shiftISODate("2025-01-01T00:00:00.000Z", -1),
+      "2024-12-31T00:00:00.000Z",
+    );
+  });
+
+  it("should shift a schedule to the week of the new term", function () {
+    // Wednesday 5th March 2025 -> week of Monday 1st September 2025
+    assert.equal(
+      getTermShiftDays("2025-03-05T00:00:00.000Z", "2025-09-03"),
+      182,
+    );
+    assert.equal(getTermShiftDays("2025-03-05T00:00:00.000Z", "2025-03-03"), 0);
+  });
+});
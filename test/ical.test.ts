@@ -0,0 +1,39 @@
+import { assert } from "chai";
+import {
+  buildICalendar,
+  escapeICalText,
+  formatICalDate,
+} from "../src/utils/ical";
+
+describe("ical", function () {
+  it("should format the stored UTC day whatever the time zone", function () {
+    assert.equal(formatICalDate("2025-03-10T00:00:00.000Z"), "20250310");
+    assert.equal(formatICalDate("2025-03-10"), "20250310");
+  });
+
+  it("should add days across month and year ends", function () {
+    assert.equal(formatICalDate("2025-02-28T00:00:00.000Z", 1), "20250301");
+    assert.equal(formatICalDate("2025-12-31T00:00:00.000Z", 1), "20260101");
+  });
+
+  it("should escape text values", function () {
+    assert.equal(
+      escapeICalText("Week 1; intro, part 1\nRead\\skim"),
+      "Week 1\\; intro\\, part 1\\nRead\\\\skim",
+    );
+  });
+
+  it("should write all-day events on the reading date", function () {
+    const ics = buildICalendar("Course", [
+      {
+        uid: "event-1@zotero-syllabus",
+        date: "2025-03-10T00:00:00.000Z",
+        summary: "Class 1",
+      },
+    ]);
+    const lines = ics.split("\r\n");
+    assert.include(lines, "DTSTART;VALUE=DATE:20250310");
+    assert.include(lines, "DTEND;VALUE=DATE:20250311");
+    assert.include(lines, "SUMMARY:Class 1");
+  });
+});
@@ -0,0 +1,41 @@
+import { assert } from "chai";
+import {
+  getTitleCreatorYearKey,
+  normalizeDOI,
+  normalizeISBNs,
+  normalizeTitle,
+} from "../src/utils/identifiers";
+
+describe("identifiers", function () {
+  it("should normalise DOIs", function () {
+    assert.equal(
+      normalizeDOI("https://doi.org/10.1000/ABC.123."),
+      "10.1000/abc.123",
+    );
+    assert.isNull(normalizeDOI("not a doi"));
+  });
+
+  it("should extract every ISBN", function () {
+    assert.deepEqual(normalizeISBNs("978-0-306-40615-7 0-306-40615-x"), [
+      "9780306406157",
+      "030640615X",
+    ]);
+    assert.deepEqual(normalizeISBNs("12345"), []);
+  });
+
+  it("should match titles loosely", function () {
+    assert.equal(
+      normalizeTitle("  Les Misérables: A Novel! "),
+      normalizeTitle("les miserables a novel"),
+    );
+    assert.equal(
+      getTitleCreatorYearKey(
+        "The Title",
+        [{ lastName: "Émile" }],
+        "March 2020",
+      ),
+      "the title|emile|2020",
+    );
+    assert.isNull(getTitleCreatorYearKey("", [], "2020"));
+  });
+});
@@ -0,0 +1,76 @@
+import { assert } from "chai";
+import {
+  countPagesInRanges,
+  getPDFPageIndexRanges,
+  parsePageRanges,
+} from "../src/utils/pageRanges";
+import {
+  ItemSyllabusAssignmentEntity,
+  MAX_PAGE_NUMBER,
+} from "../src/utils/schemas";
+
+describe("page ranges", function () {
+  it("should parse typed page ranges", function () {
+    assert.deepEqual(parsePageRanges("pp. 45-78, 90–95"), [
+      { start: 45, end: 78 },
+      { start: 90, end: 95 },
+    ]);
+    assert.deepEqual(parsePageRanges("12"), [{ start: 12, end: 12 }]);
+    assert.isNull(parsePageRanges("78-45"));
+    assert.isNull(parsePageRanges(`1-${MAX_PAGE_NUMBER + 1}`));
+  });
+
+  it("should count overlapping pages once", function () {
+    assert.equal(
+      countPagesInRanges([
+        { start: 1, end: 5 },
+        { start: 4, end: 9 },
+        { start: 20, end: 20 },
+      ]),
+      10,
+    );
+    assert.equal(
+      countPagesInRanges([{ start: 1, end: MAX_PAGE_NUMBER }]),
+      MAX_PAGE_NUMBER,
+    );
+  });
+
+  it("should map printed pages onto the PDF's pages", function () {
+    // A chapter PDF of 30 pages starting at printed page 40
+    assert.deepEqual(getPDFPageIndexRanges([{ start: 45, end: 78 }], 40, 30), [
+      { first: 5, last: 29 },
+    ]);
+    assert.deepEqual(
+      getPDFPageIndexRanges([{ start: 1, end: 10 }], 40, 30),
+      [],
+    );
+  });
+
+  it("should keep page ranges when re-parsing a stored assignment", function () {
+    const assignment = {
+      id: "assignment-1",
+      classNumber: 2,
+      pageRanges: [{ start: 45, end: 78 }],
+    };
+    const result = ItemSyllabusAssignmentEntity.safeParse(assignment);
+    assert.equal(result.type, "ok");
+    if (result.type !== "ok") return;
+    assert.deepEqual(result.value.pageRanges, assignment.pageRanges);
+
+    // And again, as stored data is parsed on every read
+    const reparsed = ItemSyllabusAssignmentEntity.safeParse(result.value);
+    assert.equal(reparsed.type, "ok");
+    if (reparsed.type !== "ok") return;
+    assert.deepEqual(reparsed.value.pageRanges, assignment.pageRanges);
+  });
+
+  it("should keep a reading status without a change time", function () {
+    const result = ItemSyllabusAssignmentEntity.safeParse({
+      id: "assignment-1",
+      status: "in-progress",
+    });
+    assert.equal(result.type, "ok");
+    if (result.type !== "ok") return;
+    assert.equal(result.value.status, "in-progress");
+  });
+});
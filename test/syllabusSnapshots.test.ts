@@ -0,0 +1,44 @@
+import { assert } from "chai";
+import { parseSyllabusSnapshot } from "../src/utils/syllabusSnapshots";
+
+describe("syllabus snapshots", function () {
+  it("should keep every assignment field through a save and load", function () {
+    const assignments = {
+      ITEMKEY1: [
+        {
+          id: "assignment-1",
+          classNumber: 1,
+          priority: "essential",
+          pageRanges: [
+            { start: 45, end: 78 },
+            { start: 90, end: 95 },
+          ],
+        },
+        {
+          id: "assignment-2",
+          classNumber: 3,
+          status: "in-progress",
+        },
+        {
+          id: "assignment-3",
+          classNumber: 4,
+          status: "skimmed",
+          statusChangedAt: "2025-02-03T10:00:00.000Z",
+          pageRanges: [{ start: 12, end: 12 }],
+        },
+      ],
+    };
+    const snapshot = {
+      id: "snapshot-1",
+      createdAt: "2025-02-03T10:00:00.000Z",
+      reason: "Before deleting a class",
+      metadata: { classes: { "1": { title: "Introduction" } } },
+      assignments,
+    };
+
+    const loaded = parseSyllabusSnapshot(JSON.parse(JSON.stringify(snapshot)));
+    assert.isNotNull(loaded);
+    assert.deepEqual(loaded!.assignments, assignments);
+    assert.equal(loaded!.metadata.classes[1]?.title, "Introduction");
+  });
+});
@@ -14,6 +14,8 @@ declare namespace _ZoteroTypes {
       "shouldColourSyllabusRows": boolean;
       "debugMode": boolean;
       "wpm": number;
+      "workloadThreshold": number;
+      "readingScheduleView": string;
     };
   }
 }